@@ -12,7 +12,11 @@ import {
   adapterRegistry,
 } from '../adapters';
 import { BlockchainEcosystem } from '../types';
-import { setTimestampForTesting, resetTimestampForTesting } from '../index';
+import {
+  translateError,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
 
 describe('Chain Adapters', () => {
   beforeEach(() => {
@@ -330,6 +334,20 @@ describe('Chain Adapters', () => {
       expect(ecosystems).toContain('ripple');
     });
 
+    it('should provide a stable code for every error pattern', () => {
+      adapterRegistry.getSupportedEcosystems().forEach(ecosystem => {
+        const adapter = adapterRegistry.getAdapter(ecosystem);
+        const codes = adapter?.getErrorCodes?.() ?? {};
+
+        expect(Object.keys(codes)).toEqual(
+          Object.keys(adapter?.getErrorPatterns() ?? {})
+        );
+        Object.values(codes).forEach(code =>
+          expect(code).toMatch(/^[A-Z][A-Z0-9_]*$/)
+        );
+      });
+    });
+
     it('should check if ecosystem is supported', () => {
       expect(adapterRegistry.isEcosystemSupported('evm')).toBe(true);
       expect(adapterRegistry.isEcosystemSupported('solana')).toBe(true);
@@ -358,4 +376,54 @@ describe('Chain Adapters', () => {
       expect(unregistered).toBe(true);
     });
   });
+
+  describe('Ecosystem patterns in translation', () => {
+    it('should match the patterns of the requested ecosystem', () => {
+      const result = translateError(
+        'Transaction simulation failed: blockhash not found',
+        { ecosystem: 'solana' }
+      );
+
+      expect(result.message).toBe('Blockhash expired or not found');
+      expect(result.code).toBe('SOLANA_BLOCKHASH_NOT_FOUND');
+    });
+
+    it('should rank requested ecosystem patterns above chain mappings', () => {
+      expect(
+        translateError('insufficient funds', { ecosystem: 'solana' }).message
+      ).toBe('Insufficient SOL balance for transaction');
+      // Detected from the text only, so the EVM mapping keeps precedence
+      expect(translateError('insufficient funds').code).toBe(
+        'GAS_INSUFFICIENT_FUNDS'
+      );
+    });
+
+    it('should use detected ecosystem patterns when nothing else matches', () => {
+      const result = translateError('blockhash not found', { explain: true });
+
+      expect(result.trace?.adapter.selection).toBe('detected');
+      expect(result.message).toBe('Blockhash expired or not found');
+    });
+
+    it('should keep custom mappings above ecosystem patterns', () => {
+      const result = translateError('insufficient balance', {
+        ecosystem: 'near',
+        customMappings: { 'insufficient balance': 'Top up your account' },
+      });
+
+      expect(result.message).toBe('Top up your account');
+    });
+
+    it('should use the fallback messages of the requested ecosystem', () => {
+      const result = translateError('contract call failed', {
+        ecosystem: 'cosmos',
+      });
+
+      expect(result.message).toBe('Cosmos module execution failed.');
+      expect(result.fallbackUsed).toBe(true);
+      expect(translateError('contract call failed').message).toBe(
+        'Smart contract error occurred. Please check the transaction details and try again.'
+      );
+    });
+  });
 });
@@ -0,0 +1,1406 @@
+/**
+ * Tests for decoding structured errors of non-EVM ecosystems
+ */
+
+import {
+  translateError,
+  registerSolanaProgramErrors,
+  registerAnchorIdl,
+  getSolanaProgramError,
+  clearSolanaProgramErrors,
+  registerSubstrateMetadata,
+  getSubstrateError,
+  clearSubstrateMetadata,
+  addOverrides,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const VAULT_PROGRAM = 'Vau1tNxp8c7GTfxGtpHvPeLJ7nYZtKq9ZCG5fV2Ku4J';
+
+const vaultIdl = {
+  address: VAULT_PROGRAM,
+  metadata: { name: 'vault', version: '0.1.0', spec: '0.1.0' },
+  instructions: [],
+  errors: [
+    { code: 6000, name: 'VaultLocked', msg: 'The vault is locked' },
+    { code: 6001, name: 'WithdrawalTooLarge' },
+  ],
+};
+
+describe('Solana errors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+    clearSolanaProgramErrors();
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+    clearSolanaProgramErrors();
+  });
+
+  it('should decode transaction error variants', () => {
+    const result = translateError(
+      { err: 'BlockhashNotFound' },
+      { ecosystem: 'solana' }
+    );
+
+    expect(result.code).toBe('SOLANA_BLOCKHASH_NOT_FOUND');
+    expect(result.category).toBe('transaction');
+    expect(result.retryable).toBe(true);
+    expect(result.decoded).toMatchObject({
+      ecosystem: 'solana',
+      name: 'BlockhashNotFound',
+    });
+  });
+
+  it('should interpolate variant data into the message', () => {
+    const result = translateError({
+      value: { err: { InsufficientFundsForRent: { account_index: 2 } } },
+    });
+
+    expect(result.code).toBe('SOLANA_INSUFFICIENT_FUNDS_FOR_RENT');
+    expect(result.message).toBe(
+      'Account 2 would not have enough SOL to stay rent-exempt. Please add more SOL.'
+    );
+    expect(result.context.severity).toBe('high');
+    expect(result.decoded?.params).toEqual({ accountIndex: 2 });
+  });
+
+  it('should use the classification of the variant', () => {
+    const result = translateError('AccountInUse', { ecosystem: 'solana' });
+
+    expect(result).toMatchObject({
+      code: 'SOLANA_ACCOUNT_IN_USE',
+      retryable: true,
+      retryStrategy: 'backoff',
+      backoffMs: 500,
+    });
+  });
+
+  it('should only resync expired blockhashes', () => {
+    const expired = translateError(
+      new Error('Signature 5x9 has expired: block height exceeded.'),
+      { ecosystem: 'solana' }
+    );
+    const duplicate = translateError(new Error('duplicate signature'), {
+      ecosystem: 'solana',
+    });
+    const processed = translateError('AlreadyProcessed', {
+      ecosystem: 'solana',
+    });
+
+    expect(expired).toMatchObject({
+      code: 'SOLANA_BLOCKHASH_EXPIRED',
+      retryable: true,
+      retryStrategy: 'resync',
+    });
+    expect(duplicate.code).toBe('SOLANA_DUPLICATE_SIGNATURE');
+    expect(duplicate.retryable).toBe(false);
+    expect(processed.code).toBe('SOLANA_ALREADY_PROCESSED');
+    expect(processed.retryable).toBe(false);
+  });
+
+  it.each([
+    [[1, 'InvalidAccountData'], 'SOLANA_INSTRUCTION_INVALID_ACCOUNT_DATA'],
+    [[0, { BorshIoError: 'Unknown' }], 'SOLANA_INSTRUCTION_BORSH_IO_ERROR'],
+  ])('should decode builtin instruction error %j', (payload, code) => {
+    const result = translateError({ InstructionError: payload });
+
+    expect(result.code).toBe(code);
+    expect(result.category).toBe('contract');
+    expect(result.retryable).toBe(false);
+    expect(result.decoded?.params).toEqual({ instructionIndex: payload[0] });
+  });
+
+  it('should interpolate the first instruction index', () => {
+    const result = translateError({
+      InstructionError: [0, 'InsufficientFunds'],
+    });
+
+    expect(result.message).toBe(
+      'An account in instruction 0 does not have enough funds.'
+    );
+  });
+
+  it('should resolve SPL Token errors from the program logs', () => {
+    const result = translateError({
+      message:
+        'Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1',
+      logs: [
+        `Program ${TOKEN_PROGRAM} invoke [1]`,
+        'Program log: Instruction: Transfer',
+        'Program log: Error: insufficient funds',
+        `Program ${TOKEN_PROGRAM} consumed 4381 of 200000 compute units`,
+        `Program ${TOKEN_PROGRAM} failed: custom program error: 0x1`,
+      ],
+    });
+
+    expect(result.message).toBe(
+      'Insufficient token balance for this transfer.'
+    );
+    expect(result.code).toBe('SOLANA_TOKEN_INSUFFICIENT_FUNDS');
+    expect(result.decoded?.params).toEqual({
+      instructionIndex: 0,
+      programId: TOKEN_PROGRAM,
+      errorCode: 1,
+      program: 'SPL Token',
+    });
+  });
+
+  it('should resolve Anchor framework errors of any program', () => {
+    const result = translateError({ InstructionError: [0, { Custom: 2003 }] });
+    const withLogs = translateError({
+      err: { InstructionError: [0, { Custom: 2003 }] },
+      logs: [
+        `Program ${VAULT_PROGRAM} invoke [1]`,
+        `Program ${VAULT_PROGRAM} failed: custom program error: 0x7d3`,
+      ],
+    });
+
+    expect(result.code).toBe('SOLANA_PROGRAM_ERROR');
+    expect(withLogs.code).toBe('SOLANA_ANCHOR_CONSTRAINT_RAW');
+    expect(withLogs.message).toBe('An account constraint was violated.');
+  });
+
+  it('should resolve registered program errors in nested instructions', () => {
+    registerSolanaProgramErrors({
+      programId: VAULT_PROGRAM,
+      name: 'Vault',
+      codePrefix: 'VAULT',
+      errors: [
+        {
+          code: 6001,
+          name: 'VaultLocked',
+          message:
+            'Instruction {{instructionIndex}} failed: the vault is locked.',
+        },
+      ],
+    });
+
+    const result = translateError({
+      message: 'failed to send transaction',
+      transactionLogs: [
+        'Program ComputeBudget111111111111111111111111111111 invoke [1]',
+        'Program ComputeBudget111111111111111111111111111111 success',
+        'Program Router1111111111111111111111111111111111 invoke [1]',
+        `Program ${VAULT_PROGRAM} invoke [2]`,
+        `Program ${VAULT_PROGRAM} failed: custom program error: 0x1771`,
+        'Program Router1111111111111111111111111111111111 failed: custom program error: 0x1771',
+      ],
+    });
+
+    expect(result.message).toBe('Instruction 1 failed: the vault is locked.');
+    expect(result.code).toBe('VAULT_VAULT_LOCKED');
+    expect(result.decoded?.params).toMatchObject({
+      instructionIndex: 1,
+      programId: VAULT_PROGRAM,
+      program: 'Vault',
+    });
+    expect(getSolanaProgramError(6001, VAULT_PROGRAM)?.error.name).toBe(
+      'VaultLocked'
+    );
+  });
+
+  it('should translate unknown program errors through the mappings', () => {
+    const result = translateError({ InstructionError: [0, { Custom: 6000 }] });
+
+    expect(result.code).toBe('SOLANA_PROGRAM_ERROR');
+    expect(result.translated).toBe(true);
+    expect(result.decoded).toMatchObject({
+      name: 'Custom',
+      params: { instructionIndex: 0, errorCode: 6000 },
+    });
+    expect(result.decoded?.message).toBeUndefined();
+  });
+
+  it('should prefer chainErrors translations over the built-in message', () => {
+    addOverrides('es', {
+      'chainErrors.SOLANA_DUPLICATE_INSTRUCTION':
+        'La instrucción {{instructionIndex}} está duplicada.',
+    });
+
+    const result = translateError(
+      { DuplicateInstruction: 3 },
+      { language: 'es', explain: true }
+    );
+
+    expect(result.message).toBe('La instrucción 3 está duplicada.');
+    expect(result.trace).toMatchObject({
+      source: 'decoded',
+      i18nKey: 'chainErrors.SOLANA_DUPLICATE_INSTRUCTION',
+      i18nKeyFound: true,
+    });
+  });
+
+  describe('Anchor IDLs', () => {
+    it('should map instruction errors to IDL errors', () => {
+      const config = registerAnchorIdl(vaultIdl, { codePrefix: 'VAULT' });
+      const result = translateError({
+        err: { InstructionError: [1, { Custom: 6000 }] },
+        logs: [
+          'Program ComputeBudget111111111111111111111111111111 invoke [1]',
+          'Program ComputeBudget111111111111111111111111111111 success',
+          `Program ${VAULT_PROGRAM} invoke [1]`,
+          `Program ${VAULT_PROGRAM} failed: custom program error: 0x1770`,
+        ],
+      });
+
+      expect(config).toMatchObject({ programId: VAULT_PROGRAM, name: 'vault' });
+      expect(result.message).toBe('The vault is locked');
+      expect(result.code).toBe('VAULT_VAULT_LOCKED');
+      expect(result.decoded?.params).toEqual({
+        instructionIndex: 1,
+        programId: VAULT_PROGRAM,
+        errorCode: 6000,
+        program: 'vault',
+      });
+    });
+
+    it('should read the address of legacy IDLs and override messages', () => {
+      registerAnchorIdl(
+        {
+          name: 'vault',
+          metadata: { address: VAULT_PROGRAM },
+          errors: vaultIdl.errors,
+        },
+        {
+          messages: {
+            VaultLocked: 'Vault locked for instruction {{instructionIndex}}.',
+          },
+        }
+      );
+
+      // Without logs, the only program defining the code is used
+      const result = translateError(
+        'Transaction simulation failed: Error processing Instruction 2: custom program error: 0x1770'
+      );
+
+      expect(result.message).toBe('Vault locked for instruction 2.');
+      expect(result.code).toBe('SOLANA_PROGRAM_VAULT_LOCKED');
+    });
+
+    it('should use messages logged by Anchor programs', () => {
+      registerAnchorIdl(vaultIdl);
+      const error = {
+        message: 'Simulation failed',
+        logs: [
+          `Program ${VAULT_PROGRAM} invoke [1]`,
+          'Program log: Instruction: Withdraw',
+          'Program log: AnchorError thrown in programs/vault/src/lib.rs:42. Error Code: WithdrawalTooLarge. Error Number: 6001. Error Message: Withdrawal exceeds the daily limit.',
+          `Program ${VAULT_PROGRAM} failed: custom program error: 0x1771`,
+        ],
+      };
+
+      expect(translateError(error).message).toBe(
+        'Withdrawal exceeds the daily limit.'
+      );
+
+      clearSolanaProgramErrors();
+      expect(translateError(error)).toMatchObject({
+        message: 'Withdrawal exceeds the daily limit.',
+        code: 'SOLANA_PROGRAM_WITHDRAWAL_TOO_LARGE',
+      });
+    });
+
+    it('should require a program id', () => {
+      expect(() => registerAnchorIdl({ errors: [] })).toThrow(
+        'programId is required when the IDL has no address'
+      );
+    });
+  });
+
+  it('should reject invalid program configurations', () => {
+    expect(() =>
+      registerSolanaProgramErrors({ programId: '', errors: [] })
+    ).toThrow('programId must be a non-empty string');
+    expect(() =>
+      registerSolanaProgramErrors({
+        programId: VAULT_PROGRAM,
+        errors: [{ code: -1, name: 'Bad' }],
+      })
+    ).toThrow('Program error codes must be non-negative integers');
+  });
+});
+
+describe('Cosmos errors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should decode tx_response codespace and code', () => {
+    const result = translateError({
+      tx_response: {
+        txhash: 'A1B2C3',
+        codespace: 'sdk',
+        code: 32,
+        raw_log:
+          'account sequence mismatch, expected 12, got 11: incorrect account sequence',
+      },
+    });
+
+    expect(result.message).toBe(
+      'Account sequence mismatch: expected 12 but got 11. Please refresh and try again.'
+    );
+    expect(result).toMatchObject({
+      code: 'COSMOS_SEQUENCE_MISMATCH',
+      category: 'transaction',
+      retryable: true,
+      retryStrategy: 'resync',
+    });
+    expect(result.decoded).toEqual(
+      expect.objectContaining({
+        ecosystem: 'cosmos',
+        name: 'WrongSequence',
+        params: {
+          codespace: 'sdk',
+          errorCode: 32,
+          txHash: 'A1B2C3',
+          expectedSequence: 12,
+          sequence: 11,
+        },
+      })
+    );
+  });
+
+  it.each([
+    [
+      'sdk',
+      5,
+      'spendable balance 10uatom is smaller than 100uatom: insufficient funds',
+      'COSMOS_INSUFFICIENT_FUNDS',
+    ],
+    [
+      'sdk',
+      13,
+      'insufficient fees; got: 10uatom required: 500uatom: insufficient fee',
+      'COSMOS_INSUFFICIENT_FEE',
+    ],
+    ['channel', 14, 'packet timeout', 'COSMOS_IBC_PACKET_TIMEOUT'],
+  ])(
+    'should decode %s/%d broadcast errors',
+    (codespace, code, log, expectedCode) => {
+      const result = translateError(
+        { code, codespace, log },
+        { ecosystem: 'cosmos' }
+      );
+
+      expect(result.code).toBe(expectedCode);
+      expect(result.decoded?.params).toMatchObject({
+        codespace,
+        errorCode: code,
+      });
+    }
+  );
+
+  it('should fill in gas usage when it is logged', () => {
+    const result = translateError(
+      {
+        code: 11,
+        codespace: 'sdk',
+        raw_log:
+          'out of gas in location: WriteFlat; gasWanted: 200000, gasUsed: 200442: out of gas',
+      },
+      { ecosystem: 'cosmos' }
+    );
+
+    expect(result.message).toBe(
+      'The transaction ran out of gas (200442 used of 200000). Please increase the gas limit.'
+    );
+    expect(result.category).toBe('gas');
+  });
+
+  it('should extract CosmWasm contract errors from CosmJS messages', () => {
+    const result = translateError(
+      new Error(
+        'Error when broadcasting tx 9F2E at height 1042. Code: 5; Raw log: failed to execute message; message index: 0: Generic error: Insufficient funds: execute wasm contract failed'
+      ),
+      { ecosystem: 'cosmos' }
+    );
+
+    expect(result.message).toBe(
+      'The contract rejected the transaction: Insufficient funds'
+    );
+    expect(result.code).toBe('COSMOS_WASM_EXECUTE_FAILED');
+    expect(result.decoded?.params).toEqual({
+      codespace: 'wasm',
+      errorCode: 5,
+      messageIndex: 0,
+      contractError: 'Insufficient funds',
+    });
+  });
+
+  it('should detect Cosmos broadcast errors', () => {
+    const result = translateError(
+      new Error(
+        'Broadcasting transaction failed with code 19 (codespace: sdk). Log: tx already in mempool'
+      )
+    );
+
+    expect(result.code).toBe('COSMOS_TX_IN_MEMPOOL');
+    expect(result.context.severity).toBe('low');
+  });
+
+  it('should report codes of unknown codespaces', () => {
+    const result = translateError(
+      { code: 3, codespace: 'poolmanager', raw_log: 'pool 42 not found' },
+      { ecosystem: 'cosmos' }
+    );
+
+    expect(result.code).toBe('COSMOS_POOLMANAGER_3');
+    expect(result.decoded).toMatchObject({
+      name: 'poolmanager/3',
+      params: { codespace: 'poolmanager', errorCode: 3 },
+    });
+    expect(result.decoded?.message).toBeUndefined();
+  });
+
+  it('should ignore errors with codes but no Cosmos details', () => {
+    const result = translateError(
+      { code: 5, message: 'insufficient funds' },
+      { ecosystem: 'cosmos' }
+    );
+
+    expect(result.decoded).toBeUndefined();
+  });
+});
+
+describe('Substrate errors', () => {
+  // Excerpt of `api.runtimeMetadata.toJSON()` for a parachain runtime
+  const parachainMetadata = {
+    magicNumber: 1635018093,
+    metadata: {
+      v14: {
+        lookup: {
+          types: [
+            {
+              id: 412,
+              type: {
+                path: ['pallet_vesting', 'pallet', 'Error'],
+                params: [],
+                def: {
+                  variant: {
+                    variants: [
+                      {
+                        name: 'NotVesting',
+                        fields: [],
+                        index: 0,
+                        docs: ['The account given is not vesting.'],
+                      },
+                    ],
+                  },
+                },
+                docs: [],
+              },
+            },
+          ],
+        },
+        pallets: [
+          { name: 'Balances', index: 10, errors: null },
+          { name: 'Vesting', index: 34, errors: { type: 412 } },
+        ],
+      },
+    },
+  };
+
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+    clearSubstrateMetadata();
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+    clearSubstrateMetadata();
+  });
+
+  it('should decode module errors of built-in pallets', () => {
+    const result = translateError({
+      dispatchError: { Module: { index: 5, error: '0x02000000' } },
+    });
+
+    expect(result.message).toBe('Insufficient balance for this transfer.');
+    expect(result.code).toBe('POLKADOT_BALANCES_INSUFFICIENT_BALANCE');
+    expect(result.category).toBe('wallet');
+    expect(result.decoded).toMatchObject({
+      ecosystem: 'polkadot',
+      name: 'balances.InsufficientBalance',
+      params: { palletIndex: 5, errorIndex: 2, pallet: 'balances' },
+    });
+  });
+
+  it('should use the module layout of the requested chain', () => {
+    const result = translateError(
+      {
+        ExtrinsicFailed: {
+          DispatchError: { Module: { index: '6', error: '0x07000000' } },
+        },
+      },
+      { ecosystem: 'polkadot', chain: 'kusama' }
+    );
+
+    expect(result.code).toBe('POLKADOT_STAKING_INSUFFICIENT_BOND');
+    expect(getSubstrateError(99, 1)).toEqual({
+      pallet: 'xcmPallet',
+      error: 'SendFailure',
+    });
+  });
+
+  it('should resolve module errors with registered runtime metadata', () => {
+    registerSubstrateMetadata(parachainMetadata, { chain: 'my-parachain' });
+
+    const result = translateError(
+      { dispatchError: { module: { index: 34, error: '0x00000000' } } },
+      { ecosystem: 'polkadot', chain: 'my-parachain' }
+    );
+
+    expect(result.message).toBe('The account given is not vesting.');
+    expect(result.code).toBe('POLKADOT_VESTING_NOT_VESTING');
+    expect(result.decoded?.name).toBe('vesting.NotVesting');
+    expect(getSubstrateError(34, 0)).toBeUndefined();
+  });
+
+  it('should use registered messages and built-in messages by name', () => {
+    registerSubstrateMetadata(
+      {
+        pallets: [
+          {
+            index: 10,
+            name: 'Balances',
+            errors: [{ index: 2, name: 'InsufficientBalance' }],
+          },
+          {
+            index: 34,
+            name: 'Vesting',
+            errors: [{ index: 0, name: 'NotVesting' }],
+          },
+        ],
+      },
+      {
+        messages: {
+          'Vesting.NotVesting': 'Nothing is vesting for {{pallet}}.',
+        },
+      }
+    );
+
+    const balances = translateError(
+      { dispatchError: { Module: { index: 10, error: [2, 0, 0, 0] } } },
+      { ecosystem: 'polkadot', chain: 'asset-hub' }
+    );
+    const vesting = translateError(
+      { dispatchError: { Module: { index: 34, error: 0 } } },
+      { ecosystem: 'polkadot' }
+    );
+
+    expect(balances.code).toBe('POLKADOT_BALANCES_INSUFFICIENT_BALANCE');
+    expect(vesting.message).toBe('Nothing is vesting for vesting.');
+  });
+
+  it('should decode polkadot-api and resolved registry errors', () => {
+    const papi = translateError(
+      {
+        type: 'Module',
+        value: { type: 'Assets', value: { type: 'BalanceLow' } },
+      },
+      { ecosystem: 'polkadot' }
+    );
+    const registry = translateError(
+      {
+        section: 'nfts',
+        method: 'NoPermission',
+        docs: ['The signing account has no permission to do the operation.'],
+      },
+      { ecosystem: 'polkadot' }
+    );
+
+    expect(papi.code).toBe('POLKADOT_ASSETS_BALANCE_LOW');
+    expect(papi.message).toBe('Insufficient asset balance for this transfer.');
+    expect(registry.code).toBe('POLKADOT_NFTS_NO_PERMISSION');
+    expect(registry.message).toBe(
+      'The signing account has no permission to do the operation.'
+    );
+  });
+
+  it('should decode Token, Arithmetic and BadOrigin errors', () => {
+    const token = translateError({
+      dispatchError: { token: 'FundsUnavailable' },
+    });
+    const arithmetic = translateError(
+      { dispatchError: { Arithmetic: 'Overflow' } },
+      { ecosystem: 'polkadot' }
+    );
+    const badOrigin = translateError(
+      { dispatchError: 'BadOrigin' },
+      { ecosystem: 'polkadot' }
+    );
+
+    expect(token.message).toBe('Insufficient funds for this transfer.');
+    expect(token.code).toBe('POLKADOT_TOKEN_FUNDS_UNAVAILABLE');
+    expect(token.decoded?.name).toBe('Token.FundsUnavailable');
+    expect(arithmetic.code).toBe('POLKADOT_ARITHMETIC_OVERFLOW');
+    expect(arithmetic.message).toBe(
+      'A calculation overflowed. Please check the amounts.'
+    );
+    expect(badOrigin.code).toBe('POLKADOT_BAD_ORIGIN');
+    expect(badOrigin.message).toBe(
+      'This account is not allowed to make this call.'
+    );
+  });
+
+  it('should read @polkadot/api codecs through toJSON', () => {
+    const dispatchError = {
+      registry: {},
+      isModule: true,
+      toJSON: () => ({ module: { index: 99, error: '0x0e000000' } }),
+    };
+
+    const result = translateError({ dispatchError }, { ecosystem: 'polkadot' });
+
+    expect(result.code).toBe('POLKADOT_XCM_LOW_BALANCE');
+    expect(result.decoded?.name).toBe('xcmPallet.LowBalance');
+  });
+
+  it('should report module errors that cannot be resolved', () => {
+    const result = translateError(
+      { dispatchError: { Module: { index: 61, error: '0x03000000' } } },
+      { ecosystem: 'polkadot', chain: 'my-parachain' }
+    );
+
+    expect(result.code).toBe('POLKADOT_MODULE_ERROR');
+    expect(result.decoded).toMatchObject({
+      name: 'Module',
+      params: { palletIndex: 61, errorIndex: 3 },
+    });
+    expect(result.decoded?.message).toBeUndefined();
+  });
+
+  it('should reject unsupported metadata', () => {
+    expect(() => registerSubstrateMetadata({ metadata: { v13: {} } })).toThrow(
+      'Unsupported Substrate metadata format'
+    );
+    expect(() =>
+      registerSubstrateMetadata({
+        pallets: [{ index: -1, name: 'Balances', errors: [] }],
+      })
+    ).toThrow('Pallet indices must be non-negative integers');
+  });
+});
+
+describe('NEAR errors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should decode action errors with the action index and account ids', () => {
+    const result = translateError({
+      status: {
+        Failure: {
+          ActionError: {
+            index: 1,
+            kind: { AccountAlreadyExists: { account_id: 'alice.near' } },
+          },
+        },
+      },
+      transaction: { signer_id: 'bob.near' },
+    });
+
+    expect(result.message).toBe('The account alice.near already exists.');
+    expect(result.code).toBe('NEAR_ACCOUNT_ALREADY_EXISTS');
+    expect(result.decoded).toMatchObject({
+      ecosystem: 'near',
+      name: 'ActionError.AccountAlreadyExists',
+      params: { actionIndex: 1, accountId: 'alice.near' },
+    });
+  });
+
+  it('should decode invalid transaction errors from RPC errors', () => {
+    const result = translateError(
+      {
+        name: 'HANDLER_ERROR',
+        code: -32000,
+        message: 'Server error',
+        data: {
+          TxExecutionError: {
+            InvalidTxError: { InvalidNonce: { tx_nonce: 5, ak_nonce: 7 } },
+          },
+        },
+      },
+      { ecosystem: 'near' }
+    );
+
+    expect(result.message).toBe(
+      'The transaction nonce 5 must be greater than the access key nonce 7. Please refresh and try again.'
+    );
+    expect(result.code).toBe('NEAR_INVALID_NONCE');
+    expect(result.retryable).toBe(true);
+    expect(result.retryStrategy).toBe('resync');
+  });
+
+  it('should decode unit variants and nested access key errors', () => {
+    const expired = translateError(
+      { Failure: { InvalidTxError: 'Expired' } },
+      { ecosystem: 'near' }
+    );
+    const accessKey = translateError(
+      {
+        Failure: {
+          InvalidTxError: {
+            InvalidAccessKeyError: {
+              AccessKeyNotFound: {
+                account_id: 'alice.near',
+                public_key: 'ed25519:8fWH',
+              },
+            },
+          },
+        },
+      },
+      { ecosystem: 'near' }
+    );
+
+    expect(expired.code).toBe('NEAR_EXPIRED');
+    expect(accessKey.code).toBe('NEAR_ACCESS_KEY_NOT_FOUND');
+    expect(accessKey.message).toBe(
+      'The access key ed25519:8fWH was not found for alice.near.'
+    );
+  });
+
+  it('should reuse adapter codes for balance and account errors', () => {
+    const balance = translateError(
+      {
+        Failure: {
+          InvalidTxError: {
+            NotEnoughBalance: {
+              signer_id: 'alice.near',
+              balance: '1000',
+              cost: '2500',
+            },
+          },
+        },
+      },
+      { ecosystem: 'near' }
+    );
+
+    expect(balance.code).toBe('NEAR_INSUFFICIENT_BALANCE');
+    expect(balance.message).toBe(
+      'Insufficient NEAR balance: alice.near has 1000 yoctoNEAR but the transaction costs 2500 yoctoNEAR.'
+    );
+    expect(balance.category).toBe('wallet');
+  });
+
+  it('should decode function call errors', () => {
+    const functionCall = (error: unknown) => ({
+      Failure: {
+        ActionError: { index: 0, kind: { FunctionCallError: error } },
+      },
+    });
+
+    const methodNotFound = translateError(
+      functionCall({ MethodResolveError: 'MethodNotFound' }),
+      { ecosystem: 'near' }
+    );
+    const trap = translateError(functionCall({ WasmTrap: 'Unreachable' }), {
+      ecosystem: 'near',
+    });
+    const noCode = translateError(
+      functionCall({
+        CompilationError: {
+          CodeDoesNotExist: { account_id: 'contract.near' },
+        },
+      }),
+      { ecosystem: 'near' }
+    );
+    const panic = translateError(
+      functionCall({
+        ExecutionError: 'Smart contract panicked: Not enough tokens',
+      }),
+      { ecosystem: 'near' }
+    );
+
+    expect(methodNotFound.code).toBe('NEAR_METHOD_NOT_FOUND');
+    expect(methodNotFound.decoded?.name).toBe(
+      'MethodResolveError.MethodNotFound'
+    );
+    expect(trap.code).toBe('NEAR_UNREACHABLE');
+    expect(noCode.code).toBe('NEAR_CONTRACT_NOT_FOUND');
+    expect(noCode.message).toBe('No contract is deployed to contract.near.');
+    expect(panic.code).toBe('NEAR_EXECUTION_ERROR');
+    expect(panic.message).toBe(
+      'The contract call failed: Smart contract panicked: Not enough tokens'
+    );
+  });
+
+  it('should fall back to the enclosing variant for unknown variants', () => {
+    const result = translateError(
+      {
+        Failure: {
+          ActionError: {
+            index: 0,
+            kind: { FunctionCallError: { HostError: 'NewHostError' } },
+          },
+        },
+      },
+      { ecosystem: 'near' }
+    );
+
+    expect(result.code).toBe('NEAR_HOST_ERROR');
+    expect(result.message).toBe(
+      'The contract execution failed in the runtime.'
+    );
+  });
+
+  it('should decode near-api-js typed errors', () => {
+    const error = Object.assign(
+      new Error('Account bob.near does not exist while viewing'),
+      { type: 'AccountDoesNotExist' }
+    );
+
+    const result = translateError(error, { ecosystem: 'near' });
+
+    expect(result.code).toBe('NEAR_ACCOUNT_NOT_FOUND');
+    expect(result.message).toBe('The account does not exist.');
+  });
+});
+
+describe('XRPL errors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should decode meta.TransactionResult of validated transactions', () => {
+    const result = translateError({
+      result: {
+        hash: 'E08D6E9754025BA2534A78707605E0601F03ACE063687A0CA1BDDACFCD1698C7',
+        meta: { TransactionIndex: 3, TransactionResult: 'tecUNFUNDED_PAYMENT' },
+        validated: true,
+      },
+    });
+
+    expect(result.message).toBe('Insufficient balance to send this payment.');
+    expect(result.code).toBe('XRPL_TEC_UNFUNDED_PAYMENT');
+    expect(result.category).toBe('wallet');
+    expect(result.retryable).toBe(false);
+    expect(result.decoded).toMatchObject({
+      ecosystem: 'ripple',
+      name: 'tecUNFUNDED_PAYMENT',
+      feeConsumed: true,
+      params: {
+        resultCode: 'tecUNFUNDED_PAYMENT',
+        txHash:
+          'E08D6E9754025BA2534A78707605E0601F03ACE063687A0CA1BDDACFCD1698C7',
+      },
+    });
+  });
+
+  it('should decode engine_result of submit responses', () => {
+    const result = translateError(
+      {
+        result: {
+          engine_result: 'telINSUF_FEE_P',
+          engine_result_code: -394,
+          engine_result_message: 'Fee insufficient.',
+          tx_json: { hash: 'C53E' },
+        },
+      },
+      { ecosystem: 'ripple' }
+    );
+
+    expect(result.code).toBe('XRPL_TEL_INSUF_FEE_P');
+    expect(result.category).toBe('gas');
+    expect(result.retryable).toBe(true);
+    expect(result.retryStrategy).toBe('backoff');
+    expect(result.decoded?.feeConsumed).toBe(false);
+    expect(result.decoded?.params).toEqual({
+      resultCode: 'telINSUF_FEE_P',
+      resultMessage: 'Fee insufficient.',
+      txHash: 'C53E',
+    });
+  });
+
+  it('should apply class defaults and result overrides', () => {
+    const retry = translateError(
+      { transaction_result: 'terNO_ACCOUNT' },
+      { ecosystem: 'ripple' }
+    );
+    const pastSequence = translateError(
+      { transaction_result: { result: 'tefPAST_SEQ' } },
+      { ecosystem: 'ripple' }
+    );
+    const malformed = translateError(
+      { engine_result: 'temREDUNDANT' },
+      { ecosystem: 'ripple' }
+    );
+
+    expect(retry.retryable).toBe(true);
+    expect(retry.retryStrategy).toBe('backoff');
+    expect(retry.decoded?.feeConsumed).toBe(false);
+    expect(pastSequence.retryStrategy).toBe('resync');
+    expect(malformed.message).toBe('The transaction would do nothing.');
+    expect(malformed.retryable).toBe(false);
+  });
+
+  it('should use the class message for results missing from the catalog', () => {
+    const result = translateError(
+      new Error('Transaction failed: tecXCHAIN_NO_CLAIM_ID'),
+      { ecosystem: 'ripple' }
+    );
+
+    expect(result.code).toBe('XRPL_TEC_XCHAIN_NO_CLAIM_ID');
+    expect(result.message).toBe(
+      'The transaction failed and its fee was charged.'
+    );
+    expect(result.decoded?.feeConsumed).toBe(true);
+  });
+
+  it('should ignore successful results', () => {
+    const result = translateError(
+      { engine_result: 'tesSUCCESS', message: 'submitted' },
+      { ecosystem: 'ripple' }
+    );
+
+    expect(result.decoded).toBeUndefined();
+  });
+});
+
+describe('Stellar errors', () => {
+  const txFailed = {
+    type: 'https://stellar.org/horizon-errors/transaction_failed',
+    title: 'Transaction Failed',
+    status: 400,
+    detail: 'The transaction failed when submitted to the stellar network.',
+    extras: {
+      envelope_xdr: 'AAAAAgAAAAA=',
+      result_codes: {
+        transaction: 'tx_failed',
+        operations: ['op_success', 'op_no_trust', 'op_underfunded'],
+      },
+      result_xdr: 'AAAAAAAAAGT/////AAAAAQ==',
+    },
+  };
+
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should report the first failed operation and list all of them', () => {
+    const result = translateError({
+      response: { status: 400, data: txFailed },
+    });
+
+    expect(result.message).toBe(
+      'Operation 1 failed: The account does not have a trust line for the asset.'
+    );
+    expect(result.code).toBe('STELLAR_OP_NO_TRUST');
+    expect(result.category).toBe('wallet');
+    expect(result.decoded).toMatchObject({
+      ecosystem: 'stellar',
+      name: 'op_no_trust',
+      params: {
+        status: 400,
+        title: 'Transaction Failed',
+        transactionCode: 'tx_failed',
+        operationIndex: 1,
+        operationCode: 'op_no_trust',
+      },
+    });
+    expect(result.decoded?.operations).toEqual([
+      {
+        index: 1,
+        code: 'op_no_trust',
+        message: 'The account does not have a trust line for the asset.',
+      },
+      {
+        index: 2,
+        code: 'op_underfunded',
+        message:
+          'The source account does not have enough funds for this operation.',
+      },
+    ]);
+  });
+
+  it('should resolve operation codes by the type of the operation', () => {
+    const error = Object.assign(new Error('Request failed with status 400'), {
+      response: { data: txFailed },
+      transaction: {
+        operations: [
+          { type: 'createAccount' },
+          { type: 'payment' },
+          { type: 'manageSellOffer' },
+        ],
+      },
+    });
+
+    const result = translateError(error, { ecosystem: 'stellar' });
+
+    expect(result.message).toBe(
+      'Operation 1 failed: The destination account does not have a trust line for the asset.'
+    );
+    expect(result.decoded?.params?.operationType).toBe('payment');
+    expect(result.decoded?.operations?.[1]).toEqual({
+      index: 2,
+      code: 'op_underfunded',
+      type: 'manage_sell_offer',
+      message: 'The account does not have enough of the asset to sell.',
+    });
+  });
+
+  it('should decode transaction result codes', () => {
+    const result = translateError(
+      {
+        extras: {
+          result_codes: { transaction: 'tx_bad_seq' },
+        },
+      },
+      { ecosystem: 'stellar' }
+    );
+
+    expect(result.code).toBe('STELLAR_BAD_SEQUENCE');
+    expect(result.retryStrategy).toBe('resync');
+    expect(result.decoded?.operations).toBeUndefined();
+  });
+
+  it('should decode problem types without result codes', () => {
+    const result = translateError(
+      {
+        type: 'https://stellar.org/horizon-errors/rate_limit_exceeded',
+        title: 'Rate Limit Exceeded',
+        status: 429,
+      },
+      { ecosystem: 'stellar' }
+    );
+
+    expect(result.code).toBe('STELLAR_HORIZON_RATE_LIMIT_EXCEEDED');
+    expect(result.retryable).toBe(true);
+    expect(result.decoded?.params).toEqual({
+      status: 429,
+      title: 'Rate Limit Exceeded',
+    });
+  });
+
+  it('should report codes missing from the catalog', () => {
+    const result = translateError(
+      {
+        extras: {
+          result_codes: {
+            transaction: 'tx_failed',
+            operations: ['op_new_failure'],
+          },
+        },
+      },
+      { ecosystem: 'stellar' }
+    );
+
+    expect(result.code).toBe('STELLAR_TX_FAILED');
+    expect(result.message).toBe(
+      'The transaction failed because one of its operations failed.'
+    );
+    expect(result.decoded?.operations).toEqual([
+      { index: 0, code: 'op_new_failure' },
+    ]);
+  });
+});
+
+describe('Tezos errors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should decode error ids of any protocol', () => {
+    const errors = ['proto.018-Proxford', 'proto.019-PtParisB'].map(prefix =>
+      translateError(
+        {
+          errors: [
+            { kind: 'temporary', id: `${prefix}.tez.subtraction_underflow` },
+            {
+              kind: 'temporary',
+              id: `${prefix}.contract.balance_too_low`,
+              contract: 'tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb',
+              balance: '1000000',
+              amount: '5000000',
+            },
+          ],
+        },
+        { ecosystem: 'tezos' }
+      )
+    );
+
+    errors.forEach(result => {
+      expect(result.message).toBe(
+        'The balance of tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb is 1000000 mutez, lower than the 5000000 mutez required.'
+      );
+      expect(result.code).toBe('TEZOS_INSUFFICIENT_BALANCE');
+      expect(result.category).toBe('wallet');
+      expect(result.decoded?.name).toBe('contract.balance_too_low');
+    });
+  });
+
+  it('should decode counter errors as resync', () => {
+    const result = translateError(
+      {
+        status: 500,
+        body: JSON.stringify([
+          {
+            kind: 'branch',
+            id: 'proto.018-Proxford.contract.counter_in_the_past',
+            contract: 'tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb',
+            expected: '12',
+            found: '11',
+          },
+        ]),
+      },
+      { ecosystem: 'tezos' }
+    );
+
+    expect(result.code).toBe('TEZOS_CONTRACT_COUNTER_IN_THE_PAST');
+    expect(result.message).toBe(
+      'The counter 11 of tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb was already used. The next counter is 12.'
+    );
+    expect(result.retryStrategy).toBe('resync');
+  });
+
+  it('should decode gas and storage exhaustion in operation results', () => {
+    const result = translateError(
+      {
+        operation_result: {
+          status: 'failed',
+          errors: [
+            {
+              kind: 'temporary',
+              id: 'proto.019-PtParisB.gas_exhausted.operation',
+            },
+          ],
+        },
+      },
+      { ecosystem: 'tezos' }
+    );
+
+    expect(result.code).toBe('TEZOS_GAS_EXHAUSTED_OPERATION');
+    expect(result.category).toBe('gas');
+    expect(result.message).toBe(
+      'The operation ran out of gas. Increase its gas limit.'
+    );
+  });
+
+  it('should decode well-known FAILWITH values', () => {
+    const error = Object.assign(new Error('FA2_NOT_OPERATOR'), {
+      errors: [
+        {
+          kind: 'temporary',
+          id: 'proto.018-Proxford.michelson_v1.runtime_error',
+          contract_handle: 'KT1RJ6PbjHpwc3M5rw5s2Nbmefwbuwbdxton',
+        },
+        {
+          kind: 'temporary',
+          id: 'proto.018-Proxford.michelson_v1.script_rejected',
+          location: 1042,
+          with: { string: 'FA2_NOT_OPERATOR' },
+        },
+      ],
+    });
+
+    const result = translateError(error, { ecosystem: 'tezos' });
+
+    expect(result.message).toBe(
+      'This account is not an operator of the tokens.'
+    );
+    expect(result.code).toBe('TEZOS_FA2_NOT_OPERATOR');
+    expect(result.decoded).toMatchObject({
+      name: 'michelson_v1.script_rejected',
+      params: { location: 1042, failwith: 'FA2_NOT_OPERATOR' },
+    });
+  });
+
+  it('should translate other FAILWITH values through mappings', () => {
+    const error = {
+      status: 500,
+      body: [
+        {
+          kind: 'temporary',
+          id: 'proto.018-Proxford.michelson_v1.script_rejected',
+          location: 87,
+          with: {
+            prim: 'Pair',
+            args: [{ string: 'SLIPPAGE_EXCEEDED' }, { int: '42' }],
+          },
+        },
+      ],
+    };
+
+    const mapped = translateError(error, {
+      ecosystem: 'tezos',
+      customMappings: { SLIPPAGE_EXCEEDED: 'Price moved too much.' },
+    });
+    const unmapped = translateError(error, { ecosystem: 'tezos' });
+
+    expect(mapped.message).toBe('Price moved too much.');
+    expect(mapped.decoded?.params?.failwith).toBe(
+      'Pair "SLIPPAGE_EXCEEDED" 42'
+    );
+    expect(unmapped.code).toBe('TEZOS_SCRIPT_FAILED');
+    expect(unmapped.decoded?.message).toBeUndefined();
+  });
+
+  it('should report ids missing from the catalog', () => {
+    const result = translateError(
+      {
+        errors: [
+          { kind: 'permanent', id: 'proto.alpha.operation.new_failure' },
+        ],
+      },
+      { ecosystem: 'tezos' }
+    );
+
+    expect(result.decoded).toMatchObject({
+      name: 'operation.new_failure',
+      code: 'TEZOS_OPERATION_NEW_FAILURE',
+    });
+    expect(result.decoded?.message).toBeUndefined();
+  });
+});
+
+describe('Algorand errors', () => {
+  const txId = 'UJZDEGXDNCF32EPF3DHODZDOCIS2JHTLGMXGEDN73U55XTPLPFT7';
+  const account = 'V4SEH2KVJ72CEUVW75EFR6EDT4SYWB5WKH7DNSIPZZ7FK4ZRI3R2WYOJFL';
+
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should decode TEAL errors with their program counter and opcode', () => {
+    const result = translateError(
+      `TransactionPool.Remember: transaction ${txId}: logic eval error: assert failed pc=123. Details: app=456789, pc=123, opcodes=intc_0 // 0\n==\nassert\n`,
+      { ecosystem: 'algorand' }
+    );
+
+    expect(result.message).toBe(
+      'Application 456789 rejected the transaction: assertion failed at pc=123 (assert).'
+    );
+    expect(result.code).toBe('ALGORAND_ASSERT_FAILED');
+    expect(result.category).toBe('contract');
+    expect(result.decoded?.params).toEqual({
+      txId,
+      appId: 456789,
+      pc: 123,
+      opcode: 'assert',
+      logicError: 'assert failed',
+    });
+  });
+
+  it('should take the failing opcode from the end of the opcode list', () => {
+    const result = translateError(
+      `TransactionPool.Remember: transaction ${txId}: logic eval error: assert failed pc=42. Details: app=456789, pc=42, opcodes=frame_dig -1; btoi; assert`,
+      { ecosystem: 'algorand' }
+    );
+
+    expect(result.decoded?.params?.opcode).toBe('assert');
+    expect(result.message).toBe(
+      'Application 456789 rejected the transaction: assertion failed at pc=42 (assert).'
+    );
+  });
+
+  it('should decode overspend rejections in algosdk errors', () => {
+    const error = Object.assign(
+      new Error('Network request error. Received status 400 (Bad Request)'),
+      {
+        response: {
+          status: 400,
+          body: {
+            message: `TransactionPool.Remember: transaction ${txId}: overspend (account ${account}, data {_struct:{} Status:Offline MicroAlgos:{Raw:100000} RewardsBase:0 TotalAppSchema:{_struct:{} NumUint:0 NumByteSlice:0}}, tried to spend {1000000})`,
+          },
+        },
+      }
+    );
+
+    const result = translateError(error, { ecosystem: 'algorand' });
+
+    expect(result.message).toBe(
+      `${account} has 100000 microAlgos but tried to spend 1000000 microAlgos.`
+    );
+    expect(result.code).toBe('ALGORAND_INSUFFICIENT_BALANCE');
+    expect(result.category).toBe('wallet');
+  });
+
+  it('should decode minimum balance and opt-in rejections', () => {
+    const minBalance = translateError(
+      `TransactionPool.Remember: transaction ${txId}: account ${account} balance 99000 below min 200000 (1 assets)`,
+      { ecosystem: 'algorand' }
+    );
+    const optIn = translateError(
+      {
+        message: `TransactionPool.Remember: transaction ${txId}: asset 31566704 missing from ${account}`,
+      },
+      { ecosystem: 'algorand' }
+    );
+
+    expect(minBalance.message).toBe(
+      `The balance of ${account} would be 99000 microAlgos, below its minimum balance of 200000 microAlgos.`
+    );
+    expect(minBalance.decoded?.params?.assets).toBe(1);
+    expect(optIn.message).toBe(
+      `${account} has not opted in to asset 31566704.`
+    );
+    expect(optIn.code).toBe('ALGORAND_ASSET_NOT_OPTED_IN');
+  });
+
+  it('should prefer ledger errors of inner transactions', () => {
+    const result = translateError(
+      `TransactionPool.Remember: transaction ${txId}: logic eval error: logic eval error: inner tx 0 failed: asset 31566704 missing from ${account}. Details: app=456789, pc=87, opcodes=itxn_submit`,
+      { ecosystem: 'algorand' }
+    );
+
+    expect(result.code).toBe('ALGORAND_ASSET_NOT_OPTED_IN');
+    expect(result.decoded?.params).toMatchObject({
+      appId: 456789,
+      pc: 87,
+      opcode: 'itxn_submit',
+    });
+  });
+
+  it('should decode other logic errors with the generic message', () => {
+    const result = translateError(
+      `TransactionPool.Remember: transaction ${txId}: logic eval error: invalid ApplicationArgs index 2. Details: app=456789, pc=12, opcodes=txna ApplicationArgs 2`,
+      { ecosystem: 'algorand' }
+    );
+
+    expect(result.code).toBe('ALGORAND_LOGIC_ERROR');
+    expect(result.message).toBe(
+      'Application 456789 failed at pc=12 (txna ApplicationArgs 2): invalid ApplicationArgs index 2.'
+    );
+  });
+
+  it('should decode expired transactions as resync', () => {
+    const result = translateError(
+      `TransactionPool.Remember: transaction ${txId}: txn dead: round 35001000 outside of 35000000--35000999`,
+      { ecosystem: 'algorand' }
+    );
+
+    expect(result.code).toBe('ALGORAND_TXN_DEAD');
+    expect(result.retryStrategy).toBe('resync');
+    expect(result.message).toBe(
+      'The current round 35001000 is outside the validity window of the transaction (rounds 35000000 to 35000999).'
+    );
+  });
+});
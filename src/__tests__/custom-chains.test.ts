@@ -13,6 +13,7 @@ import {
   getAvailableChains,
   CustomChainConfig,
 } from '../index';
+import { loadErrorMappings, loadErrorMappingsAsync } from '../mapping-loader';
 
 describe('Custom Chain Support', () => {
   beforeEach(() => {
@@ -399,4 +400,163 @@ describe('Custom Chain Support', () => {
       expect(fallbackResult.translated).toBe(true); // i18n system provides fallback translation
     });
   });
+
+  describe('Ecosystems and Inheritance', () => {
+    it('should use the ecosystem adapter instead of EVM mappings', () => {
+      registerCustomChain({
+        chainId: 'solana-fork',
+        name: 'Solana Fork',
+        ecosystem: 'solana',
+        errorMappings: [],
+      });
+
+      const result = translateError('blockhash not found', {
+        chain: 'solana-fork',
+        explain: true,
+      });
+
+      expect(result.message).toBe('Blockhash expired or not found');
+      expect(result.code).toBe('SOLANA_BLOCKHASH_NOT_FOUND');
+      expect(result.trace?.adapter).toMatchObject({
+        name: 'Solana',
+        selection: 'chain',
+      });
+      expect(
+        loadErrorMappings('solana-fork').some(mapping =>
+          mapping.pattern.startsWith('ERC20')
+        )
+      ).toBe(false);
+    });
+
+    it('should rank the chain mappings above the ecosystem patterns', () => {
+      registerCustomChain({
+        chainId: 'solana-mappings',
+        name: 'Solana Mappings',
+        ecosystem: 'solana',
+        errorMappings: [
+          { pattern: 'insufficient funds', message: 'Top up your account' },
+        ],
+      });
+
+      const result = translateError(new Error('insufficient funds'), {
+        chain: 'solana-mappings',
+      });
+      const ecosystemResult = translateError(new Error('blockhash not found'), {
+        chain: 'solana-mappings',
+      });
+
+      expect(result.message).toBe('Top up your account');
+      expect(ecosystemResult.message).toBe('Blockhash expired or not found');
+    });
+
+    it('should use the ecosystem fallback messages', () => {
+      registerCustomChain({
+        chainId: 'cosmos-zone',
+        name: 'Cosmos Zone',
+        ecosystem: 'cosmos',
+        errorMappings: [],
+      });
+
+      const result = translateError('contract call failed', {
+        chain: 'cosmos-zone',
+      });
+
+      expect(result.message).toBe('Cosmos module execution failed.');
+      expect(result.fallbackUsed).toBe(true);
+    });
+
+    it('should prefer custom fallbacks over ecosystem fallbacks', () => {
+      registerCustomChain({
+        chainId: 'cosmos-zone',
+        name: 'Cosmos Zone',
+        ecosystem: 'cosmos',
+        errorMappings: [],
+        customFallbacks: { generic: 'Zone error' },
+      });
+
+      expect(
+        translateError('contract call failed', { chain: 'cosmos-zone' }).message
+      ).toBe('Cosmos module execution failed.');
+      expect(
+        translateError('something odd', { chain: 'cosmos-zone' }).message
+      ).toBe('Zone error');
+    });
+
+    it('should inherit the categories of the extended chain', () => {
+      registerCustomChain({
+        chainId: 'polygon-l3',
+        name: 'Polygon L3',
+        extends: 'polygon',
+        errorMappings: [],
+      });
+
+      expect(loadErrorMappings('polygon-l3')).toEqual(
+        loadErrorMappings('polygon')
+      );
+    });
+
+    it('should apply category overrides', async () => {
+      registerCustomChain({
+        chainId: 'polygon-l3',
+        name: 'Polygon L3',
+        extends: 'polygon',
+        errorMappings: [],
+        categoryOverrides: {
+          erc20: [
+            {
+              pattern: 'ERC20: transfer amount exceeds balance',
+              message: 'Not enough L3 tokens',
+              code: 'ERC20_INSUFFICIENT_BALANCE',
+            },
+          ],
+          gas: [],
+        },
+      });
+
+      const mappings = loadErrorMappings('polygon-l3');
+      expect(mappings.filter(mapping => mapping.category === 'erc20')).toEqual([
+        expect.objectContaining({ message: 'Not enough L3 tokens' }),
+      ]);
+      expect(mappings.some(mapping => mapping.category === 'gas')).toBe(false);
+      expect(await loadErrorMappingsAsync('polygon-l3')).toEqual(mappings);
+
+      const result = translateError('ERC20: transfer amount exceeds balance', {
+        chain: 'polygon-l3',
+      });
+      expect(result.message).toBe('Not enough L3 tokens');
+      expect(result.category).toBe('erc20');
+    });
+
+    it('should reject invalid inheritance settings', () => {
+      expect(() =>
+        registerCustomChain({
+          chainId: 'bad-parent',
+          name: 'Bad Parent',
+          extends: 'my-chain',
+          errorMappings: [],
+        })
+      ).toThrow('extends must be a built-in chain');
+
+      expect(() =>
+        registerCustomChain({
+          chainId: 'bad-ecosystem',
+          name: 'Bad Ecosystem',
+          ecosystem: 'solana',
+          extends: 'ethereum',
+          errorMappings: [],
+        })
+      ).toThrow('Only EVM chains can extend a built-in chain');
+
+      expect(() =>
+        registerCustomChain({
+          chainId: 'bad-override',
+          name: 'Bad Override',
+          errorMappings: [],
+          categoryOverrides: {
+            gas: [{ pattern: 'out of gas', message: '' }],
+          },
+        })
+      ).toThrow('categoryOverrides.gas[0].message must be a non-empty string');
+    });
+  });
 });
@@ -0,0 +1,338 @@
+/**
+ * Tests for Solidity custom error decoding
+ */
+
+import {
+  translateError,
+  registerCustomErrors,
+  getCustomError,
+  clearCustomErrors,
+  computeSelector,
+  decodeAbiParameters,
+  parseErrorSignature,
+  addOverrides,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+import { formatErrorSignature } from '../utils/abi-decoder';
+import * as selectorTable from '../errors/custom-errors.json';
+
+const word = (value: number | bigint) =>
+  BigInt.asUintN(256, BigInt(value)).toString(16).padStart(64, '0');
+
+const VAULT = '0x00000000000000000000000000000000000000aa';
+const AAVE_POOL = '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2';
+
+describe('Custom errors', () => {
+  const insufficientShares = `${computeSelector(
+    'InsufficientShares(uint256,uint256)'
+  )}${word(5)}${word(10)}`;
+
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+    clearCustomErrors();
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+    clearCustomErrors();
+  });
+
+  describe('ABI utilities', () => {
+    it('should compute selectors of canonical signatures', () => {
+      expect(computeSelector('Error(string)')).toBe('0x08c379a0');
+      expect(
+        computeSelector('ERC20InsufficientBalance(address,uint256,uint256)')
+      ).toBe('0xe450d38c');
+    });
+
+    it('should parse human-readable error signatures', () => {
+      expect(
+        parseErrorSignature('error InsufficientShares(uint256 have, uint want)')
+      ).toEqual({
+        name: 'InsufficientShares',
+        inputs: [
+          { type: 'uint256', name: 'have' },
+          { type: 'uint256', name: 'want' },
+        ],
+      });
+    });
+
+    it('should decode static and dynamic parameters', () => {
+      const data = [
+        word(128),
+        word(-2),
+        word(0xaa),
+        word(192),
+        word(2),
+        '6869'.padEnd(64, '0'),
+        word(2),
+        word(1),
+        word(2),
+      ].join('');
+
+      expect(
+        decodeAbiParameters(
+          [
+            { type: 'string' },
+            { type: 'int8' },
+            { type: 'address' },
+            { type: 'uint256[]' },
+          ],
+          data
+        )
+      ).toEqual([
+        'hi',
+        '-2',
+        '0x00000000000000000000000000000000000000AA',
+        ['1', '2'],
+      ]);
+    });
+
+    it('should return null for malformed data', () => {
+      expect(decodeAbiParameters([{ type: 'string' }], word(32))).toBeNull();
+    });
+  });
+
+  describe('registry', () => {
+    it('should register errors from a contract ABI', () => {
+      const [definition] = registerCustomErrors({
+        abi: [
+          { type: 'function', name: 'deposit' },
+          {
+            type: 'error',
+            name: 'InsufficientShares',
+            inputs: [
+              { name: 'have', type: 'uint256' },
+              { name: 'want', type: 'uint256' },
+            ],
+          },
+        ],
+      });
+
+      expect(definition?.signature).toBe('InsufficientShares(uint256,uint256)');
+      expect(getCustomError(definition?.selector ?? '')).toBe(definition);
+    });
+
+    it('should prefer definitions scoped to the contract address', () => {
+      registerCustomErrors({ abi: ['error Paused(uint256 code)'] });
+      registerCustomErrors({
+        abi: ['error Paused(uint256 reason)'],
+        address: VAULT,
+      });
+
+      const selector = computeSelector('Paused(uint256)');
+      expect(getCustomError(selector)?.inputs[0]?.name).toBe('code');
+      expect(
+        getCustomError(selector, { address: VAULT })?.inputs[0]?.name
+      ).toBe('reason');
+    });
+
+    it('should throw on invalid signatures', () => {
+      expect(() => registerCustomErrors({ abi: ['not a signature'] })).toThrow(
+        "Invalid error signature: 'not a signature'"
+      );
+    });
+  });
+
+  describe('translateError', () => {
+    it('should interpolate decoded arguments into message templates', () => {
+      registerCustomErrors({
+        abi: ['error InsufficientShares(uint256 have, uint256 want)'],
+        messages: {
+          InsufficientShares: 'You have {{have}} shares but need {{want}}.',
+        },
+      });
+
+      const result = translateError({
+        message: 'execution reverted',
+        data: insufficientShares,
+      });
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe('You have 5 shares but need 10.');
+      expect(result.revert).toMatchObject({
+        kind: 'custom',
+        name: 'InsufficientShares',
+        args: { have: '5', want: '10' },
+      });
+    });
+
+    it('should resolve the contract address from the error', () => {
+      registerCustomErrors({
+        abi: ['error InsufficientShares(uint256 have, uint256 want)'],
+        address: VAULT,
+        messages: { InsufficientShares: 'Vault needs {{want}} shares.' },
+      });
+
+      const result = translateError({
+        message: 'execution reverted',
+        data: insufficientShares,
+        transaction: { to: VAULT },
+      });
+
+      expect(result.message).toBe('Vault needs 10 shares.');
+    });
+
+    it('should use translated templates for the target language', () => {
+      registerCustomErrors({
+        abi: ['error InsufficientShares(uint256 have, uint256 want)'],
+        messages: { InsufficientShares: 'Need {{want}} shares.' },
+      });
+      addOverrides('es', {
+        'customErrors.InsufficientShares': 'Necesitas {{want}} acciones.',
+      });
+
+      const result = translateError(
+        { message: 'execution reverted', data: insufficientShares },
+        { language: 'es' }
+      );
+
+      expect(result.message).toBe('Necesitas 10 acciones.');
+    });
+
+    it('should match custom mappings on the error name', () => {
+      registerCustomErrors({
+        abi: ['error InsufficientShares(uint256 have, uint256 want)'],
+      });
+
+      const result = translateError(
+        { message: 'execution reverted', data: insufficientShares },
+        { customMappings: { InsufficientShares: 'Not enough shares.' } }
+      );
+
+      expect(result.message).toBe('Not enough shares.');
+    });
+
+    it('should report unknown selectors', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        data: insufficientShares,
+      });
+
+      expect(result.revert).toEqual({
+        kind: 'custom',
+        selector: insufficientShares.slice(0, 10),
+        data: insufficientShares,
+      });
+    });
+  });
+
+  describe('built-in selectors', () => {
+    const insufficientBalance = `0xe450d38c${word(0xaa)}${word(1)}${word(5)}`;
+    const reserveInactive = `0x08c379a0${word(32)}${word(2)}${'3237'.padEnd(64, '0')}`;
+
+    it('should store the selector of every signature', () => {
+      selectorTable.errors.forEach(({ selector, signature }) => {
+        const { name, inputs } = parseErrorSignature(signature);
+        expect(computeSelector(formatErrorSignature(name, inputs))).toBe(
+          selector
+        );
+      });
+    });
+
+    it('should translate OpenZeppelin errors out of the box', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        data: insufficientBalance,
+      });
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe(
+        "Insufficient token balance. You have 1 but this transfer needs 5 (in the token's smallest unit)."
+      );
+      expect(getCustomError('0xe450d38c')?.source).toBe('OpenZeppelin');
+    });
+
+    it('should derive a code from the error name', () => {
+      const unauthorized = translateError({
+        message: 'execution reverted',
+        data: `${computeSelector('OwnableUnauthorizedAccount(address)')}${word(0xaa)}`,
+      });
+
+      expect(
+        translateError({
+          message: 'execution reverted',
+          data: insufficientBalance,
+        })
+      ).toMatchObject({
+        code: 'CONTRACT_ERC20_INSUFFICIENT_BALANCE',
+        category: 'contract',
+      });
+      expect(unauthorized.code).toBe('CONTRACT_OWNABLE_UNAUTHORIZED_ACCOUNT');
+    });
+
+    it('should let registered errors override built-in ones', () => {
+      registerCustomErrors({
+        abi: ['error ERC20InsufficientBalance(address, uint256, uint256)'],
+        messages: { ERC20InsufficientBalance: 'Not enough tokens.' },
+      });
+
+      const result = translateError({
+        message: 'execution reverted',
+        data: insufficientBalance,
+      });
+
+      expect(result.message).toBe('Not enough tokens.');
+      clearCustomErrors();
+      expect(getCustomError('0xe450d38c')?.name).toBe(
+        'ERC20InsufficientBalance'
+      );
+    });
+
+    it('should translate Safe revert reason codes', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        data: `0x08c379a0${word(32)}${word(5)}${'4753303133'.padEnd(64, '0')}`,
+      });
+
+      expect(result.message).toBe(
+        'The Safe transaction failed. The inner call reverted.'
+      );
+    });
+
+    it('should translate Aave reason codes raised by Aave pools', () => {
+      const result = translateError(
+        { message: 'execution reverted', data: reserveInactive },
+        { contractAddress: AAVE_POOL.toLowerCase() }
+      );
+
+      expect(result.code).toBe('CONTRACT_AAVE_RESERVE_INACTIVE');
+    });
+
+    it('should not translate Aave reason codes raised by other contracts', () => {
+      const fromVault = translateError(
+        { message: 'execution reverted', data: reserveInactive },
+        { contractAddress: VAULT }
+      );
+      const fromUnknown = translateError({
+        message: 'execution reverted',
+        data: reserveInactive,
+      });
+
+      expect(fromVault.code).not.toBe('CONTRACT_AAVE_RESERVE_INACTIVE');
+      expect(fromUnknown.code).not.toBe('CONTRACT_AAVE_RESERVE_INACTIVE');
+    });
+
+    it('should not match Aave reason codes against error messages', () => {
+      const result = translateError(new Error('27'));
+
+      expect(result.code).not.toBe('CONTRACT_AAVE_RESERVE_INACTIVE');
+      expect(result.fallbackUsed).toBe(true);
+    });
+
+    it('should translate Aave custom errors out of the box', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        data: computeSelector('HealthFactorLowerThanLiquidationThreshold()'),
+      });
+
+      expect(result.message).toBe(
+        'This action would put your Aave health factor below the liquidation threshold.'
+      );
+      expect(getCustomError(result.revert?.selector ?? '')?.source).toBe(
+        'Aave'
+      );
+    });
+  });
+});
@@ -8,6 +8,9 @@ import {
   setCurrentLanguage,
   getCurrentLanguage,
   translateError,
+  translateErrorAsync,
+  loadLanguage,
+  clearTranslationCache,
   setTimestampForTesting,
   resetTimestampForTesting,
   languageBundleManager,
@@ -16,6 +19,7 @@ import {
   detectFromError,
 } from '../index';
 import { loadAllTranslations } from '../services/translation-loader';
+import { loadErrorMappings, loadErrorMappingsAsync } from '../mapping-loader';
 
 describe('i18n functionality', () => {
   beforeEach(() => {
@@ -147,6 +151,60 @@ describe('i18n functionality', () => {
     });
   });
 
+  describe('lazy loading', () => {
+    beforeEach(() => {
+      i18nManager.clear();
+      languageBundleManager.clear();
+      clearTranslationCache();
+    });
+
+    test('should load a language on demand', async () => {
+      const load = loadLanguage('fr');
+      expect(loadLanguage('fr')).toBe(load);
+      expect(languageBundleManager.isLanguageLoaded('fr')).toBe(false);
+
+      await load;
+
+      expect(languageBundleManager.isLanguageLoaded('fr')).toBe(true);
+      expect(i18nManager.translate('errors.network', 'fr')).toBe(
+        'Erreur réseau survenue. Veuillez vérifier votre connexion.'
+      );
+    });
+
+    test('should keep locales registered by the app', async () => {
+      registerLocale('fr', { errors: { network: 'Réseau indisponible' } });
+
+      await loadLanguage('fr');
+
+      expect(i18nManager.translate('errors.network', 'fr')).toBe(
+        'Réseau indisponible'
+      );
+    });
+
+    test('should load only the enabled error categories', async () => {
+      expect(await loadErrorMappingsAsync('polygon')).toEqual(
+        loadErrorMappings('polygon')
+      );
+    });
+
+    test('should translate errors with translateErrorAsync', async () => {
+      const result = await translateErrorAsync(new Error('network error'), {
+        language: 'es',
+      });
+
+      expect(result.message).toBe(
+        'Error de red ocurrido. Por favor verifica tu conexión.'
+      );
+      expect(result.translated).toBe(true);
+    });
+
+    test('should reject missing errors', async () => {
+      await expect(
+        translateErrorAsync(undefined as unknown as string)
+      ).rejects.toThrow('Error parameter is required');
+    });
+  });
+
   describe('languageDetectionService', () => {
     test('should detect language from error message', () => {
       const error1 = { message: 'Error de red ocurrido' };
@@ -1,10 +1,20 @@
 import {
   translateError,
+  translateErrors,
   getAvailableChains,
   setTimestampForTesting,
   resetTimestampForTesting,
+  ConsoleErrorLogger,
+  setErrorLogger,
+  setLogLevel,
+  getLogLevel,
+  disableLogging,
+  adapterRegistry,
 } from '../index';
+import type { ErrorLogger } from '../index';
 import { TranslateErrorOptions } from '../types';
+import { loadErrorMappings } from '../mapping-loader';
+import { validateMapping } from '../mapping-utils';
 
 describe('translateError', () => {
   beforeEach(() => {
@@ -351,6 +361,372 @@ describe('translateError', () => {
       );
     });
   });
+
+  describe('Explain trace', () => {
+    it('should not attach a trace by default', () => {
+      const result = translateError(new Error('nonce too low'));
+
+      expect(result.trace).toBeUndefined();
+    });
+
+    it('should explain which mapping fired', () => {
+      const error = new Error(
+        'execution reverted: ERC20: transfer amount exceeds balance'
+      );
+      const result = translateError(error, { explain: true });
+
+      expect(result.trace).toMatchObject({
+        adapter: { ecosystem: 'evm' },
+        extractedMessage:
+          'execution reverted: ERC20: transfer amount exceeds balance',
+        source: 'mapping',
+        matchedMapping: {
+          pattern: 'ERC20: transfer amount exceeds balance',
+          matchMode: 'contains',
+        },
+        cacheHit: false,
+      });
+      expect(result.trace?.candidates).toContainEqual(
+        expect.objectContaining({
+          pattern: 'ERC20: transfer amount exceeds balance',
+          input: 'message',
+          matched: true,
+        })
+      );
+      expect(result.trace?.candidates).toContainEqual(
+        expect.objectContaining({ pattern: 'nonce too low', matched: false })
+      );
+
+      const cached = translateError(error, { explain: true });
+      expect(cached.trace?.cacheHit).toBe(true);
+    });
+
+    it('should explain fallbacks and the i18n key looked up', () => {
+      const result = translateError(new Error('something odd happened'), {
+        explain: true,
+      });
+
+      expect(result.trace).toMatchObject({
+        errorType: null,
+        i18nKey: 'errors.unknown',
+        cacheHit: false,
+      });
+      expect(result.trace?.source).toBe(
+        result.translated ? 'i18n' : 'fallback'
+      );
+      expect(result.trace?.candidates.every(c => !c.matched)).toBe(true);
+    });
+  });
+});
+
+describe('Error codes', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should expose the code and category of the matched mapping', () => {
+    const result = translateError(new Error('user denied transaction'));
+
+    expect(result.code).toBe('WALLET_USER_REJECTED');
+    expect(result.category).toBe('wallet');
+  });
+
+  it('should keep codes stable across languages', () => {
+    const english = translateError(new Error('network error'));
+    const spanish = translateError(new Error('network error'), {
+      language: 'es',
+    });
+
+    expect(spanish.message).not.toBe(english.message);
+    expect(spanish.code).toBe('NETWORK_CONNECTION_ERROR');
+    expect(spanish.category).toBe('network');
+  });
+
+  it('should derive codes from the error type for fallbacks', () => {
+    expect(translateError('some unknown failure')).toMatchObject({
+      code: 'UNKNOWN_ERROR',
+      category: 'unknown',
+    });
+    expect(translateError('wallet exploded')).toMatchObject({
+      code: 'WALLET_ERROR',
+      category: 'wallet',
+    });
+  });
+
+  it('should give every built-in mapping a valid code and category', () => {
+    loadErrorMappings().forEach(mapping => {
+      expect(validateMapping(mapping).errors).toEqual([]);
+      expect(mapping.code).toBeDefined();
+      expect(mapping.category).toBeDefined();
+    });
+  });
+});
+
+describe('Remediation actions', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should attach the actions of the matched mapping', () => {
+    const result = translateError(new Error('out of gas'));
+
+    expect(result.actions).toEqual([
+      {
+        type: 'increase_gas_limit',
+        params: { multiplier: 1.2 },
+        label: 'Increase gas limit',
+      },
+    ]);
+  });
+
+  it('should target the requested chain when switching networks', () => {
+    const result = translateError(new Error('wrong network'), {
+      chain: 'polygon',
+    });
+
+    expect(result.actions).toEqual([
+      {
+        type: 'switch_network',
+        params: { chain: 'polygon' },
+        label: 'Switch network',
+      },
+    ]);
+  });
+
+  it('should translate action labels', () => {
+    const result = translateError(new Error('insufficient funds for gas'), {
+      language: 'es',
+    });
+
+    expect(result.actions?.[0]?.label).toBe('Añadir fondos');
+  });
+
+  it('should omit actions when none are declared', () => {
+    expect(translateError(new Error('nonce too high')).actions).toBeUndefined();
+    expect(translateError('some unknown failure').actions).toBeUndefined();
+  });
+
+  it('should reject unknown action types', () => {
+    const result = validateMapping({
+      pattern: 'paused',
+      message: 'Paused',
+      actions: [{ type: 'refresh_page' as 'retry_later' }],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain('actions must be an array of actions');
+  });
+});
+
+describe('Retryability and severity', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should not retry errors the user caused', () => {
+    const result = translateError(new Error('user rejected the request'));
+
+    expect(result.retryable).toBe(false);
+    expect(result.retryStrategy).toBeUndefined();
+    expect(result.context.severity).toBe('low');
+  });
+
+  it('should retry nonce errors after resyncing', () => {
+    expect(translateError(new Error('nonce too low'))).toMatchObject({
+      retryable: true,
+      retryStrategy: 'resync',
+    });
+  });
+
+  it('should retry rate limited requests with a delay', () => {
+    expect(translateError(new Error('rate limit exceeded'))).toMatchObject({
+      retryable: true,
+      retryStrategy: 'backoff',
+      backoffMs: 5000,
+    });
+  });
+
+  it('should classify unmatched errors by error type', () => {
+    expect(translateError('network glitch while sending')).toMatchObject({
+      retryable: true,
+      retryStrategy: 'backoff',
+      backoffMs: 1000,
+    });
+    expect(translateError('contract exploded').context.severity).toBe('high');
+  });
+
+  it('should mark reverted executions as high severity', () => {
+    const result = translateError(new Error('execution reverted'));
+
+    expect(result.retryable).toBe(false);
+    expect(result.context.severity).toBe('high');
+  });
+
+  it('should apply adapter overrides', () => {
+    const result = translateError(
+      'Transaction simulation failed: Blockhash not found',
+      { ecosystem: 'solana' }
+    );
+
+    expect(result).toMatchObject({
+      retryable: true,
+      retryStrategy: 'resync',
+    });
+  });
+
+  it('should reject invalid classification fields', () => {
+    const result = validateMapping({
+      pattern: 'paused',
+      message: 'Paused',
+      severity: 'fatal' as 'high',
+      backoffMs: -1,
+    });
+
+    expect(result.errors).toEqual([
+      'backoffMs must be a non-negative number',
+      'severity must be one of: low, medium, high, critical',
+    ]);
+  });
+});
+
+describe('translateErrors', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should return results in input order', () => {
+    const errors = [
+      new Error('nonce too low'),
+      'user rejected transaction',
+      new Error('nonce too low'),
+    ];
+
+    const { results } = translateErrors(errors, { chain: 'polygon' });
+
+    expect(results.map(result => result.message)).toEqual(
+      errors.map(error => translateError(error, { chain: 'polygon' }).message)
+    );
+  });
+
+  it('should translate identical errors once', () => {
+    const { results, stats } = translateErrors([
+      new Error('nonce too low'),
+      { message: 'nonce too low' },
+      'some unknown failure',
+    ]);
+
+    expect(results[0]).toEqual(results[1]);
+    expect(results[0]).not.toBe(results[1]);
+    expect(stats).toMatchObject({
+      total: 3,
+      unique: 2,
+      translated: 2,
+      fallbackUsed: 1,
+    });
+  });
+
+  it('should not share results between identical errors', () => {
+    const { results } = translateErrors([
+      new Error('out of gas'),
+      new Error('out of gas'),
+      new Error('out of gas'),
+    ]);
+    const [first, second, third] = results;
+    if (!first || !second || !third) {
+      throw new Error('Expected three results');
+    }
+
+    first.message = 'MUTATED';
+    first.context.operation = 'MUTATED';
+    first.actions?.push({ type: 'retry_later', label: 'MUTATED' });
+
+    expect(second.actions?.length).toBeGreaterThan(0);
+    expect(second).toEqual(third);
+    expect(second.message).not.toBe('MUTATED');
+    expect(second.context.operation).toBe('translateError');
+    expect(second.actions).not.toContainEqual(
+      expect.objectContaining({ label: 'MUTATED' })
+    );
+    expect(second.context).not.toBe(third.context);
+  });
+
+  it('should set the original error of each input', () => {
+    const errors = [new Error('nonce too low'), { message: 'nonce too low' }];
+
+    const { results } = translateErrors(errors, {
+      includeOriginalError: true,
+    });
+
+    expect(results[0]?.originalError).toBe(errors[0]);
+    expect(results[1]?.originalError).toBe(errors[1]);
+  });
+
+  it('should decode each unique error once', () => {
+    const adapter = adapterRegistry.getAdapter('solana');
+    if (!adapter?.decodeError) {
+      throw new Error('Solana adapter must decode errors');
+    }
+    const decodeError = jest.spyOn(adapter, 'decodeError');
+
+    translateErrors(
+      [
+        { InstructionError: [0, 'InsufficientFunds'] },
+        { InstructionError: [0, 'InsufficientFunds'] },
+      ],
+      { ecosystem: 'solana' }
+    );
+
+    expect(decodeError).toHaveBeenCalledTimes(2);
+    decodeError.mockRestore();
+  });
+
+  it('should count results per error type and mapping', () => {
+    const { stats } = translateErrors([
+      new Error('nonce too low'),
+      new Error('nonce too low'),
+      new Error('insufficient funds for gas'),
+      'some unknown failure',
+    ]);
+
+    expect(stats.byMapping).toEqual({
+      'nonce too low': 2,
+      'insufficient funds for gas': 1,
+    });
+    expect(stats.byErrorType.unknown).toBe(1);
+    expect(
+      Object.values(stats.byErrorType).reduce((sum, count) => sum + count, 0)
+    ).toBe(4);
+  });
+
+  it('should return empty statistics for an empty batch', () => {
+    expect(translateErrors([])).toEqual({
+      results: [],
+      stats: {
+        total: 0,
+        unique: 0,
+        translated: 0,
+        fallbackUsed: 0,
+        byErrorType: {},
+        byMapping: {},
+      },
+    });
+  });
 });
 
 describe('getAvailableChains', () => {
@@ -363,3 +739,61 @@ describe('getAvailableChains', () => {
     expect(chains).toContain('optimism');
   });
 });
+
+describe('Logging', () => {
+  const createLogger = (): jest.Mocked<ErrorLogger> => ({
+    logError: jest.fn(),
+    logWarning: jest.fn(),
+    logInfo: jest.fn(),
+  });
+
+  afterEach(() => {
+    setErrorLogger(null, 'silent');
+  });
+
+  it('should be silent by default', () => {
+    const info = jest
+      .spyOn(ConsoleErrorLogger.prototype, 'logInfo')
+      .mockImplementation(() => {});
+
+    translateError(new Error('nonce too low'));
+
+    expect(getLogLevel()).toBe('silent');
+    expect(info).not.toHaveBeenCalled();
+    info.mockRestore();
+  });
+
+  it('should forward error contexts to a custom logger', () => {
+    const logger = createLogger();
+    setErrorLogger(logger);
+
+    translateError(new Error('nonce too high'), { chain: 'polygon' });
+
+    expect(logger.logInfo).toHaveBeenCalledWith(
+      'Error successfully translated',
+      expect.objectContaining({
+        chain: 'polygon',
+        operation: 'translateError',
+      })
+    );
+  });
+
+  it('should filter messages below the log level', () => {
+    const logger = createLogger();
+    setErrorLogger(logger, 'warn');
+
+    translateError(new Error('nonce too high'), { chain: 'arbitrum' });
+    translateError(new Error('an unrecognized failure'));
+
+    expect(logger.logInfo).not.toHaveBeenCalled();
+    expect(logger.logWarning).toHaveBeenCalledTimes(1);
+
+    disableLogging();
+    translateError(new Error('another unrecognized failure'));
+    expect(logger.logWarning).toHaveBeenCalledTimes(1);
+
+    setLogLevel('info');
+    translateError(new Error('nonce too high'), { chain: 'optimism' });
+    expect(logger.logInfo).toHaveBeenCalled();
+  });
+});
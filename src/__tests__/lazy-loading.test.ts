@@ -0,0 +1,177 @@
+/**
+ * Tests for the lazy entry point
+ *
+ * This file only imports the lazy entry point, so no translation or error
+ * category is loaded before a test requests it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  translateErrorAsync,
+  loadLanguage,
+  isLanguageSupported,
+  isLanguageLoaded,
+} from '../lazy';
+
+// Global type declarations for console
+declare const console: Console;
+
+// eslint-disable-next-line no-undef
+const SRC_DIR = path.resolve(__dirname, '..');
+
+/**
+ * Resolve a relative module specifier to a source file
+ */
+function resolveModule(from: string, specifier: string): string | null {
+  const base = path.resolve(path.dirname(from), specifier);
+  return (
+    [base, `${base}.ts`, path.join(base, 'index.ts')].find(
+      candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+    ) ?? null
+  );
+}
+
+/**
+ * Collect the files loaded with an entry point: every file reached through
+ * static imports and re-exports, leaving out type-only imports and dynamic
+ * `import()` calls
+ */
+function collectStaticImports(entry: string): Set<string> {
+  const files = new Set<string>();
+  const pending = [entry];
+
+  while (pending.length > 0) {
+    const file = pending.pop();
+    if (!file || files.has(file)) {
+      continue;
+    }
+    files.add(file);
+    if (!file.endsWith('.ts')) {
+      continue;
+    }
+
+    const source = ts.createSourceFile(
+      file,
+      fs.readFileSync(file, 'utf8'),
+      ts.ScriptTarget.ES2022
+    );
+    source.statements.forEach(statement => {
+      const isStaticImport =
+        ts.isImportDeclaration(statement) &&
+        !statement.importClause?.isTypeOnly;
+      const isStaticExport =
+        ts.isExportDeclaration(statement) && !statement.isTypeOnly;
+      if (
+        (isStaticImport || isStaticExport) &&
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text.startsWith('.')
+      ) {
+        const resolved = resolveModule(file, statement.moduleSpecifier.text);
+        if (resolved) {
+          pending.push(resolved);
+        }
+      }
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Get the translation and error category files loaded with an entry point,
+ * relative to the source directory
+ */
+function getLoadedDataFiles(entry: string): string[] {
+  return Array.from(collectStaticImports(path.join(SRC_DIR, entry)))
+    .map(file => path.relative(SRC_DIR, file))
+    .filter(
+      file =>
+        file.startsWith(`translations${path.sep}`) ||
+        /^errors[\\/](erc20|gas|wallet|network|transaction|evm|contract)\.json$/.test(
+          file
+        )
+    )
+    .sort();
+}
+
+describe('Lazy entry point', () => {
+  describe('static imports', () => {
+    it('should only load the English fallback translations', () => {
+      expect(getLoadedDataFiles('lazy.ts')).toEqual([
+        path.join('translations', 'en.json'),
+      ]);
+    });
+
+    it('should load every language with the main entry point', () => {
+      const loaded = getLoadedDataFiles('index.ts');
+
+      expect(loaded).toContain(path.join('translations', 'fr.json'));
+      expect(loaded).toContain(path.join('errors', 'contract.json'));
+    });
+  });
+
+  describe('loadLanguage', () => {
+    it('should register a language only once it is loaded', async () => {
+      expect(isLanguageSupported('fr')).toBe(false);
+      expect(isLanguageLoaded('fr')).toBe(false);
+
+      await loadLanguage('fr');
+
+      expect(isLanguageSupported('fr')).toBe(true);
+      expect(isLanguageLoaded('fr')).toBe(true);
+    });
+
+    it('should load the base language of regional codes', async () => {
+      await loadLanguage('pt-BR');
+
+      expect(isLanguageSupported('pt')).toBe(true);
+      expect(isLanguageSupported('pt-BR')).toBe(false);
+    });
+
+    it('should skip unknown languages silently', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await loadLanguage('xx');
+
+      expect(isLanguageSupported('xx')).toBe(false);
+      expect(isLanguageLoaded('xx')).toBe(false);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('translateErrorAsync', () => {
+    it('should load only the requested language', async () => {
+      const result = await translateErrorAsync(new Error('network error'), {
+        language: 'es',
+      });
+
+      expect(result.message).toBe(
+        'Error de red ocurrido. Por favor verifica tu conexión.'
+      );
+      expect(isLanguageSupported('es')).toBe(true);
+      expect(isLanguageSupported('de')).toBe(false);
+    });
+
+    it('should translate regional codes with the base language', async () => {
+      const result = await translateErrorAsync(new Error('network error'), {
+        language: 'es-ES',
+      });
+
+      expect(result.message).toBe(
+        'Error de red ocurrido. Por favor verifica tu conexión.'
+      );
+      expect(isLanguageSupported('es-ES')).toBe(false);
+    });
+
+    it('should match the error categories of the chain', async () => {
+      const result = await translateErrorAsync(new Error('nonce too low'), {
+        chain: 'polygon',
+      });
+
+      expect(result.code).toBe('TRANSACTION_NONCE_TOO_LOW');
+    });
+  });
+});
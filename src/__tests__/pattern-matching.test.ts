@@ -0,0 +1,152 @@
+/**
+ * Tests for error mapping match modes
+ */
+
+import {
+  translateError,
+  findBestMatch,
+  scoreMatch,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+import type { ErrorMapping } from '../index';
+import { validateMapping } from '../mapping-utils';
+
+describe('Pattern matching', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  describe('scoreMatch', () => {
+    const message = 'execution reverted: Vault: deposit limit reached';
+
+    it('should default to exact matching', () => {
+      expect(scoreMatch(message, { pattern: 'Vault', message: '' })).toBeNull();
+      expect(
+        scoreMatch('VAULT: PAUSED', { pattern: 'vault: paused', message: '' })
+      ).not.toBeNull();
+    });
+
+    it('should support contains and startsWith modes', () => {
+      expect(
+        scoreMatch(message, {
+          pattern: 'deposit limit reached',
+          message: '',
+          matchMode: 'contains',
+        })
+      ).not.toBeNull();
+      expect(
+        scoreMatch(message, {
+          pattern: 'deposit limit reached',
+          message: '',
+          matchMode: 'startsWith',
+        })
+      ).toBeNull();
+      expect(
+        scoreMatch(message, {
+          pattern: 'execution reverted',
+          message: '',
+          matchMode: 'startsWith',
+        })
+      ).not.toBeNull();
+    });
+
+    it('should match tokens in any order', () => {
+      const mapping: ErrorMapping = {
+        pattern: 'limit deposit',
+        message: '',
+        matchMode: 'tokens',
+      };
+
+      expect(scoreMatch(message, mapping)).not.toBeNull();
+      expect(scoreMatch('deposit reverted', mapping)).toBeNull();
+    });
+
+    it('should keep supporting isRegex mappings', () => {
+      expect(
+        scoreMatch(message, {
+          pattern: 'deposit .* reached$',
+          message: '',
+          isRegex: true,
+        })
+      ).not.toBeNull();
+    });
+  });
+
+  describe('findBestMatch', () => {
+    it('should prefer stricter and longer matches over the first hit', () => {
+      const mappings: ErrorMapping[] = [
+        { pattern: 'limit', message: 'tokens', matchMode: 'tokens' },
+        { pattern: 'deposit', message: 'short', matchMode: 'contains' },
+        { pattern: 'deposit limit', message: 'long', matchMode: 'contains' },
+      ];
+
+      expect(findBestMatch('deposit limit reached', mappings)?.message).toBe(
+        'long'
+      );
+      expect(
+        findBestMatch('deposit limit', [
+          ...mappings,
+          { pattern: 'deposit limit', message: 'exact' },
+        ])?.message
+      ).toBe('exact');
+    });
+
+    it('should rank by priority before match mode', () => {
+      const mappings: ErrorMapping[] = [
+        { pattern: 'paused', message: 'exact' },
+        {
+          pattern: 'paused',
+          message: 'custom',
+          matchMode: 'contains',
+          priority: 100,
+        },
+      ];
+
+      expect(findBestMatch('paused', mappings)?.message).toBe('custom');
+    });
+  });
+
+  describe('translateError', () => {
+    it('should translate wrapped provider messages', () => {
+      const result = translateError(
+        new Error('execution reverted: ERC20: transfer amount exceeds balance')
+      );
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe(
+        "Insufficient token balance. You don't have enough tokens to complete this transfer."
+      );
+    });
+
+    it('should prefer the most specific built-in mapping', () => {
+      const result = translateError(
+        new Error(
+          'replacement transaction underpriced: existing nonce has higher fee'
+        )
+      );
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe(
+        'Replacement transaction gas price is too low. Please increase your gas price to replace the pending transaction.'
+      );
+    });
+  });
+
+  describe('validateMapping', () => {
+    it('should reject unknown match modes', () => {
+      const result = validateMapping({
+        pattern: 'paused',
+        message: 'Paused',
+        matchMode: 'fuzzy' as ErrorMapping['matchMode'],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('matchMode must be one of');
+    });
+  });
+});
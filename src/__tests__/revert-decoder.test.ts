@@ -0,0 +1,135 @@
+/**
+ * Tests for Solidity revert data decoding
+ */
+
+import {
+  translateError,
+  decodeRevertData,
+  findRevertData,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+
+const word = (value: number | bigint) => value.toString(16).padStart(64, '0');
+
+const encodeErrorString = (reason: string) => {
+  const hex = Array.from(reason, char =>
+    char.charCodeAt(0).toString(16).padStart(2, '0')
+  ).join('');
+  const padded = hex.padEnd(Math.ceil(hex.length / 64) * 64, '0');
+  return `0x08c379a0${word(32)}${word(hex.length / 2)}${padded}`;
+};
+
+const encodePanic = (code: number) => `0x4e487b71${word(code)}`;
+
+describe('Revert data decoding', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  describe('decodeRevertData', () => {
+    it('should decode Error(string) payloads', () => {
+      const data = encodeErrorString('ERC20: transfer amount exceeds balance');
+
+      expect(decodeRevertData(data)).toEqual({
+        kind: 'error',
+        selector: '0x08c379a0',
+        data,
+        reason: 'ERC20: transfer amount exceeds balance',
+      });
+    });
+
+    it('should decode Panic(uint256) payloads', () => {
+      const decoded = decodeRevertData(encodePanic(0x11));
+
+      expect(decoded?.kind).toBe('panic');
+      expect(decoded?.panicCode).toBe('0x11');
+    });
+
+    it('should return null for unknown selectors and malformed data', () => {
+      expect(decodeRevertData('0xdeadbeef')).toBeNull();
+      expect(decodeRevertData('0x08c379a0')).toBeNull();
+      expect(decodeRevertData('not hex')).toBeNull();
+    });
+  });
+
+  describe('findRevertData', () => {
+    const data = encodePanic(0x12);
+
+    it('should find revert data in ethers error shapes', () => {
+      expect(findRevertData({ code: 'CALL_EXCEPTION', data })).toBe(data);
+      expect(findRevertData({ info: { error: { data } } })).toBe(data);
+      expect(
+        findRevertData({ error: { body: JSON.stringify({ error: { data } }) } })
+      ).toBe(data);
+    });
+
+    it('should find revert data in viem and web3 error shapes', () => {
+      expect(findRevertData({ cause: { raw: data } })).toBe(data);
+      expect(findRevertData({ innerError: { data } })).toBe(data);
+    });
+
+    it('should find revert data embedded in messages', () => {
+      expect(findRevertData(`execution reverted with data ${data}`)).toBe(data);
+    });
+
+    it('should return null when no revert data is present', () => {
+      expect(findRevertData(new Error('nonce too low'))).toBeNull();
+    });
+  });
+
+  describe('translateError', () => {
+    it('should translate decoded Error(string) reasons', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        data: encodeErrorString('ERC20: transfer amount exceeds balance'),
+      });
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe(
+        "Insufficient token balance. You don't have enough tokens to complete this transfer."
+      );
+      expect(result.revert?.reason).toBe(
+        'ERC20: transfer amount exceeds balance'
+      );
+    });
+
+    it('should translate decoded panic codes', () => {
+      const result = translateError({
+        message: 'execution reverted',
+        info: { error: { data: encodePanic(0x11) } },
+      });
+
+      expect(result.translated).toBe(true);
+      expect(result.message).toBe(
+        'Arithmetic overflow or underflow occurred. Please check the calculation values.'
+      );
+      expect(result.revert?.panicCode).toBe('0x11');
+    });
+
+    it('should fall back to the extracted message when the reason is unmapped', () => {
+      const result = translateError({
+        message: 'nonce too low',
+        data: encodeErrorString('Vault: not ready'),
+      });
+
+      expect(result.message).toBe(
+        'Transaction nonce is too low. Please wait for previous transactions to be processed or reset your nonce.'
+      );
+      expect(result.revert?.reason).toBe('Vault: not ready');
+    });
+
+    it('should not decode revert data for non-EVM ecosystems', () => {
+      const result = translateError(
+        { message: 'failed', data: encodePanic(0x11) },
+        { ecosystem: 'solana' }
+      );
+
+      expect(result.revert).toBeUndefined();
+    });
+  });
+});
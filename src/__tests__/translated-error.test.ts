@@ -0,0 +1,118 @@
+/**
+ * Tests for the typed translated error hierarchy
+ */
+
+import {
+  toTranslatedError,
+  createTranslatedError,
+  translateError,
+  TranslatedWeb3Error,
+  WalletError,
+  GasError,
+  NetworkError,
+  TransactionError,
+  NonceError,
+  TokenError,
+  ContractRevertError,
+  retryWeb3Call,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+
+const word = (value: number) => value.toString(16).padStart(64, '0');
+
+describe('Translated error hierarchy', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it.each([
+    ['user rejected the request', WalletError, 'WalletError'],
+    ['out of gas', GasError, 'GasError'],
+    ['network error', NetworkError, 'NetworkError'],
+    [
+      'replacement transaction underpriced',
+      TransactionError,
+      'TransactionError',
+    ],
+    ['nonce too low', NonceError, 'NonceError'],
+    ['ERC20: transfer amount exceeds balance', TokenError, 'TokenError'],
+    ['execution reverted', ContractRevertError, 'ContractRevertError'],
+    [
+      'Ownable: caller is not the owner',
+      ContractRevertError,
+      'ContractRevertError',
+    ],
+  ])('should create the typed error for "%s"', (message, ErrorClass, name) => {
+    const error = toTranslatedError(new Error(message));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(TranslatedWeb3Error);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe(name);
+  });
+
+  it('should keep subclasses in their parent category', () => {
+    expect(toTranslatedError('nonce too low')).toBeInstanceOf(TransactionError);
+    expect(
+      toTranslatedError('ERC20: transfer amount exceeds allowance')
+    ).toBeInstanceOf(ContractRevertError);
+  });
+
+  it('should preserve the original error and translation result', () => {
+    const original = { code: 4001, message: 'User rejected the request.' };
+    const error = toTranslatedError(original, { language: 'es' });
+
+    expect(error.cause).toBe(original);
+    expect(error.result).toEqual(translateError(original, { language: 'es' }));
+    expect(error.message).toBe(error.result.message);
+    expect(error.code).toBe('WALLET_USER_REJECTED');
+    expect(error.attempts).toBe(1);
+  });
+
+  it('should return already translated errors unchanged', () => {
+    const error = toTranslatedError('nonce too low');
+
+    expect(toTranslatedError(error)).toBe(error);
+  });
+
+  it('should use ContractRevertError for errors with revert data', () => {
+    const error = toTranslatedError({
+      message: 'call failed',
+      data: `0x4e487b71${word(0x11)}`,
+    });
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect((error as ContractRevertError).revert).toMatchObject({
+      kind: 'panic',
+    });
+  });
+
+  it('should fall back to the base class for unknown errors', () => {
+    const error = toTranslatedError('something odd happened');
+
+    expect(error.constructor).toBe(TranslatedWeb3Error);
+    expect(error.name).toBe('TranslatedWeb3Error');
+  });
+
+  it('should create typed errors from existing results', () => {
+    const result = translateError('rate limit exceeded');
+    const error = createTranslatedError(result, { attempts: 4 });
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.result).toBe(result);
+    expect(error.attempts).toBe(4);
+  });
+
+  it('should be thrown by retryWeb3Call', async () => {
+    const error = await retryWeb3Call(() =>
+      Promise.reject(new Error('user rejected the request'))
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(WalletError);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the translation cache
+ */
+
+import {
+  translateError,
+  configureTranslationCache,
+  clearTranslationCache,
+  getTranslationCacheStats,
+  MemoryTranslationCacheStore,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+
+describe('Translation cache', () => {
+  let now = 1234567890000;
+
+  beforeEach(() => {
+    now = 1234567890000;
+    setTimestampForTesting(() => now);
+    configureTranslationCache({
+      enabled: true,
+      maxSize: 1000,
+      ttl: 5 * 60 * 1000,
+      strategy: 'fifo',
+      store: new MemoryTranslationCacheStore(),
+    });
+    clearTranslationCache();
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+  });
+
+  it('should count hits and misses', () => {
+    translateError(new Error('nonce too low'));
+    translateError(new Error('nonce too low'));
+
+    expect(getTranslationCacheStats()).toMatchObject({
+      size: 1,
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+    });
+  });
+
+  it('should not share cached results with callers', () => {
+    const first = translateError(new Error('nonce too low'));
+    first.message = 'MUTATED';
+    first.context.operation = 'MUTATED';
+
+    const second = translateError(new Error('nonce too low'));
+    second.message = 'MUTATED AGAIN';
+
+    const third = translateError(new Error('nonce too low'));
+    expect(third.message).not.toMatch('MUTATED');
+    expect(third.context.operation).toBe('translateError');
+    expect(getTranslationCacheStats().hits).toBe(2);
+  });
+
+  it('should ignore the order of option keys', () => {
+    translateError(new Error('nonce too low'), {
+      chain: 'polygon',
+      language: 'en',
+    });
+    translateError(new Error('nonce too low'), {
+      language: 'en',
+      chain: 'polygon',
+    });
+
+    expect(getTranslationCacheStats().hits).toBe(1);
+  });
+
+  it('should expire entries after the TTL', () => {
+    configureTranslationCache({ ttl: 1000 });
+
+    translateError(new Error('nonce too low'));
+    now += 1000;
+    translateError(new Error('nonce too low'));
+
+    expect(getTranslationCacheStats()).toMatchObject({ hits: 0, misses: 2 });
+  });
+
+  it('should evict the oldest entry with FIFO', () => {
+    configureTranslationCache({ maxSize: 2 });
+
+    translateError(new Error('nonce too low'));
+    translateError(new Error('nonce too high'));
+    translateError(new Error('nonce too low'));
+    translateError(new Error('out of gas'));
+    translateError(new Error('nonce too low'));
+
+    expect(getTranslationCacheStats()).toMatchObject({
+      size: 2,
+      hits: 1,
+      evictions: 2,
+    });
+  });
+
+  it('should evict the least recently used entry with LRU', () => {
+    configureTranslationCache({ maxSize: 2, strategy: 'lru' });
+
+    translateError(new Error('nonce too low'));
+    translateError(new Error('nonce too high'));
+    translateError(new Error('nonce too low'));
+    translateError(new Error('out of gas'));
+    translateError(new Error('nonce too low'));
+
+    expect(getTranslationCacheStats()).toMatchObject({
+      size: 2,
+      hits: 2,
+      evictions: 1,
+    });
+  });
+
+  it('should not cache when disabled', () => {
+    configureTranslationCache({ enabled: false });
+
+    translateError(new Error('nonce too low'));
+    translateError(new Error('nonce too low'));
+
+    expect(getTranslationCacheStats()).toMatchObject({
+      enabled: false,
+      size: 0,
+      hits: 0,
+      misses: 0,
+    });
+  });
+
+  it('should use a custom store', () => {
+    const store = new MemoryTranslationCacheStore();
+    const set = jest.spyOn(store, 'set');
+    configureTranslationCache({ store });
+
+    const result = translateError(new Error('nonce too low'));
+
+    expect(set).toHaveBeenCalledWith(expect.any(String), {
+      value: result,
+      expiresAt: now + 5 * 60 * 1000,
+    });
+    expect(store.size()).toBe(1);
+  });
+
+  it('should reset entries and statistics when cleared', () => {
+    translateError(new Error('nonce too low'));
+    clearTranslationCache();
+
+    expect(getTranslationCacheStats()).toMatchObject({
+      size: 0,
+      hits: 0,
+      misses: 0,
+    });
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => configureTranslationCache({ maxSize: 0 })).toThrow(
+      'maxSize must be a positive integer'
+    );
+    expect(() => configureTranslationCache({ ttl: -1 })).toThrow(
+      'ttl must be a non-negative number'
+    );
+  });
+});
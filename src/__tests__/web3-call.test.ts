@@ -0,0 +1,164 @@
+/**
+ * Tests for retrying Web3 calls
+ */
+
+import {
+  retryWeb3Call,
+  withErrorTranslation,
+  TranslatedWeb3Error,
+  setTimestampForTesting,
+  resetTimestampForTesting,
+} from '../index';
+
+describe('retryWeb3Call', () => {
+  beforeEach(() => {
+    setTimestampForTesting(1234567890000);
+  });
+
+  afterEach(() => {
+    resetTimestampForTesting();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should return the value of a successful call', async () => {
+    const fn = jest.fn().mockResolvedValue('0xreceipt');
+
+    await expect(retryWeb3Call(fn)).resolves.toBe('0xreceipt');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable errors until the call succeeds', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockResolvedValue('0xreceipt');
+    const onRetry = jest.fn();
+
+    await expect(retryWeb3Call(fn, { onRetry })).resolves.toBe('0xreceipt');
+    expect(fn.mock.calls).toEqual([[1], [2], [3]]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ retryStrategy: 'resync' }),
+      1,
+      0
+    );
+  });
+
+  it('should throw a translated error for non-retryable errors', async () => {
+    const original = new Error('user rejected the request');
+    const fn = jest.fn().mockRejectedValue(original);
+
+    const error = await retryWeb3Call(fn).catch(e => e);
+
+    expect(error).toBeInstanceOf(TranslatedWeb3Error);
+    expect(error).toMatchObject({
+      code: 'WALLET_USER_REJECTED',
+      category: 'wallet',
+      retryable: false,
+      attempts: 1,
+      cause: original,
+    });
+    expect(error.message).toBe(error.result.message);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('nonce too low'));
+
+    const error = await retryWeb3Call(fn, { maxRetries: 2 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TranslatedWeb3Error);
+    expect(error.attempts).toBe(3);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off exponentially up to the maximum delay', async () => {
+    jest.useFakeTimers();
+    const fn = jest.fn().mockRejectedValue(new Error('network error'));
+    const delays: number[] = [];
+
+    const promise = retryWeb3Call(fn, {
+      jitter: 0,
+      maxDelayMs: 3000,
+      onRetry: (_result, _attempt, delayMs) => {
+        delays.push(delayMs);
+      },
+    });
+    const assertion =
+      expect(promise).rejects.toBeInstanceOf(TranslatedWeb3Error);
+    await jest.runAllTimersAsync();
+    await assertion;
+
+    expect(delays).toEqual([1000, 2000, 3000]);
+  });
+
+  it('should use the backoff suggested by the error', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('rate limit exceeded'))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    const promise = retryWeb3Call(fn, { onRetry });
+    await jest.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('ok');
+    // 5000ms suggested, half of it removed by the default jitter
+    expect(onRetry).toHaveBeenCalledWith(expect.anything(), 1, 2500);
+  });
+
+  it('should let shouldRetry override the classification', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockResolvedValue('ok');
+
+    const error = await retryWeb3Call(fn, {
+      shouldRetry: () => false,
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TranslatedWeb3Error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass translation options to translateError', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('vault is closed'));
+
+    const error = await retryWeb3Call(fn, {
+      customMappings: { 'vault is closed': 'The vault is closed.' },
+    }).catch(e => e);
+
+    expect(error.message).toBe('The vault is closed.');
+  });
+
+  it('should reject invalid retry settings', async () => {
+    const fn = jest.fn().mockResolvedValue('ok');
+
+    await expect(retryWeb3Call(fn, { maxRetries: -1 })).rejects.toThrow(
+      'maxRetries must be a non-negative integer'
+    );
+    await expect(retryWeb3Call(fn, { jitter: 2 })).rejects.toThrow(
+      'jitter must be a number between 0 and 1'
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('withErrorTranslation', () => {
+  it('should wrap a function and forward its arguments', async () => {
+    const getBalance = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockImplementation(async (address: string) => `${address}:100`);
+
+    const wrapped = withErrorTranslation(getBalance);
+
+    await expect(wrapped('0xabc')).resolves.toBe('0xabc:100');
+    expect(getBalance).toHaveBeenCalledWith('0xabc');
+    expect(getBalance).toHaveBeenCalledTimes(2);
+  });
+});
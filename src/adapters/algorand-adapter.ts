@@ -8,7 +8,11 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import {
+  decodeAlgorandError,
+  findAlgodRejection,
+} from '../utils/algorand-error-decoder';
 
 /**
  * Algorand chain adapter for Algorand blockchain
@@ -82,7 +86,8 @@ export class AlgorandAdapter extends BaseChainAdapter {
         error.includes('invalid signature') ||
         error.includes('algorand') ||
         error.includes('teal') ||
-        error.includes('asa')
+        error.includes('asa') ||
+        findAlgodRejection(error) !== null
       );
     }
 
@@ -93,13 +98,21 @@ export class AlgorandAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'validation_error') ||
         this.hasErrorProperty(error, 'network_error') ||
         this.hasErrorProperty(error, 'asa') ||
-        this.hasErrorProperty(error, 'teal')
+        this.hasErrorProperty(error, 'teal') ||
+        findAlgodRejection(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode algod rejections with the Algorand error catalog
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeAlgorandError(error);
+  }
+
   /**
    * Get Algorand-specific error patterns
    */
@@ -117,6 +130,23 @@ export class AlgorandAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Algorand error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient balance': 'ALGORAND_INSUFFICIENT_BALANCE',
+      'logic error': 'ALGORAND_LOGIC_ERROR',
+      'invalid signature': 'ALGORAND_SIGNATURE_INVALID',
+      algorand: 'ALGORAND_ERROR',
+      teal: 'ALGORAND_TEAL_ERROR',
+      asa: 'ALGORAND_ASSET_ERROR',
+      'account not found': 'ALGORAND_ACCOUNT_NOT_FOUND',
+      'asset not found': 'ALGORAND_ASSET_NOT_FOUND',
+      'fee too small': 'ALGORAND_FEE_TOO_SMALL',
+    };
+  }
+
   /**
    * Get Algorand-specific fallback messages
    */
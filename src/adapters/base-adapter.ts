@@ -6,7 +6,11 @@
  * errors across different blockchain networks (EVM, Solana, Cosmos, Near).
  */
 
-import { ChainAdapter, BlockchainEcosystem } from '../types';
+import {
+  ChainAdapter,
+  BlockchainEcosystem,
+  ErrorClassificationRule,
+} from '../types';
 
 /**
  * Abstract base class for all chain adapters
@@ -33,6 +37,20 @@ export abstract class BaseChainAdapter implements ChainAdapter {
    */
   abstract getErrorPatterns(): Record<string, string>;
 
+  /**
+   * Get stable error codes, keyed by the same patterns as `getErrorPatterns`
+   */
+  abstract getErrorCodes(): Record<string, string>;
+
+  /**
+   * Get retryability and severity overrides, keyed by error type
+   * (`network`, `wallet`, `contract`, `gas`, `transaction`) or by one of the
+   * patterns of `getErrorPatterns`
+   */
+  getErrorClassifications(): Record<string, ErrorClassificationRule> {
+    return {};
+  }
+
   /**
    * Get ecosystem-specific fallback messages
    */
@@ -121,6 +121,23 @@ export class CardanoAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Cardano error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient ada': 'CARDANO_INSUFFICIENT_BALANCE',
+      'script execution failed': 'CARDANO_SCRIPT_FAILED',
+      'datum hash mismatch': 'CARDANO_DATUM_HASH_MISMATCH',
+      plutus: 'CARDANO_PLUTUS_ERROR',
+      cardano: 'CARDANO_ERROR',
+      utxo: 'CARDANO_UTXO_ERROR',
+      'invalid signature': 'CARDANO_SIGNATURE_INVALID',
+      'expired transaction': 'CARDANO_TRANSACTION_EXPIRED',
+      'fee too small': 'CARDANO_FEE_TOO_SMALL',
+    };
+  }
+
   /**
    * Get Cardano-specific fallback messages
    */
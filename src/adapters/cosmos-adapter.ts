@@ -8,7 +8,15 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import {
+  BlockchainEcosystem,
+  DecodedChainError,
+  ErrorClassificationRule,
+} from '../types';
+import {
+  decodeCosmosError,
+  findCosmosErrorInfo,
+} from '../utils/cosmos-error-decoder';
 
 /**
  * Cosmos chain adapter for Cosmos SDK-based blockchains
@@ -77,7 +85,8 @@ export class CosmosAdapter extends BaseChainAdapter {
         error.includes('invalid sequence') ||
         error.includes('out of gas') ||
         error.includes('ABCI') ||
-        error.includes('cosmos')
+        error.includes('cosmos') ||
+        findCosmosErrorInfo(error) !== null
       );
     }
 
@@ -88,13 +97,21 @@ export class CosmosAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'tx_response') ||
         this.hasErrorProperty(error, 'raw_log') ||
         this.hasErrorProperty(error, 'type') ||
-        this.hasErrorProperty(error, 'module')
+        this.hasErrorProperty(error, 'module') ||
+        findCosmosErrorInfo(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode ABCI errors by codespace and code
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeCosmosError(error);
+  }
+
   /**
    * Get Cosmos-specific error patterns
    */
@@ -114,6 +131,34 @@ export class CosmosAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Cosmos error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient funds': 'COSMOS_INSUFFICIENT_FUNDS',
+      'account sequence mismatch': 'COSMOS_SEQUENCE_MISMATCH',
+      'signature verification failed': 'COSMOS_SIGNATURE_INVALID',
+      'invalid sequence': 'COSMOS_SEQUENCE_MISMATCH',
+      'out of gas': 'COSMOS_OUT_OF_GAS',
+      ABCI: 'COSMOS_ABCI_ERROR',
+      cosmos: 'COSMOS_ERROR',
+      'invalid account': 'COSMOS_INVALID_ACCOUNT',
+      'insufficient fee': 'COSMOS_INSUFFICIENT_FEE',
+      'memo too large': 'COSMOS_MEMO_TOO_LARGE',
+    };
+  }
+
+  /**
+   * Get Cosmos retryability overrides
+   */
+  override getErrorClassifications(): Record<string, ErrorClassificationRule> {
+    return {
+      // Account sequence mismatches are fixed by refetching the sequence
+      transaction: { retryable: true, retryStrategy: 'resync' },
+    };
+  }
+
   /**
    * Get Cosmos-specific fallback messages
    */
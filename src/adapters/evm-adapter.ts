@@ -7,7 +7,8 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedRevert } from '../types';
+import { decodeRevertData, findRevertData } from '../utils/revert-decoder';
 
 /**
  * EVM chain adapter for Ethereum-compatible networks
@@ -63,6 +64,15 @@ export class EVMAdapter extends BaseChainAdapter {
     return this.extractMessageFromError(error);
   }
 
+  /**
+   * Decode `Error(string)` or `Panic(uint256)` revert data carried by an
+   * ethers, viem or web3.js error
+   */
+  decodeRevertData(error: unknown): DecodedRevert | null {
+    const data = findRevertData(error);
+    return data ? decodeRevertData(data) : null;
+  }
+
   /**
    * Check if error format matches EVM ecosystem
    */
@@ -108,6 +118,22 @@ export class EVMAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the EVM error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'execution reverted': 'TRANSACTION_EXECUTION_REVERTED',
+      'insufficient funds': 'GAS_INSUFFICIENT_FUNDS',
+      'gas required exceeds allowance': 'GAS_EXCEEDS_ALLOWANCE',
+      'nonce too low': 'TRANSACTION_NONCE_TOO_LOW',
+      revert: 'EVM_REVERT',
+      'user rejected': 'WALLET_USER_REJECTED',
+      'network error': 'NETWORK_CONNECTION_ERROR',
+      timeout: 'NETWORK_TIMEOUT',
+    };
+  }
+
   /**
    * Get EVM-specific fallback messages
    */
@@ -8,7 +8,11 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import {
+  decodeNearError,
+  findNearExecutionError,
+} from '../utils/near-error-decoder';
 
 /**
  * Near chain adapter for Near Protocol blockchain
@@ -108,13 +112,21 @@ export class NearAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'AccountDoesNotExist') ||
         this.hasErrorProperty(error, 'AccessKeyDoesNotExist') ||
         this.hasErrorProperty(error, 'FunctionCallError') ||
-        this.hasErrorProperty(error, 'ExecutionError')
+        this.hasErrorProperty(error, 'ExecutionError') ||
+        findNearExecutionError(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode `InvalidTxError` and `ActionError` trees of execution errors
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeNearError(error);
+  }
+
   /**
    * Get Near-specific error patterns
    */
@@ -133,6 +145,24 @@ export class NearAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Near error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient balance': 'NEAR_INSUFFICIENT_BALANCE',
+      'account does not exist': 'NEAR_ACCOUNT_NOT_FOUND',
+      'access key': 'NEAR_ACCESS_KEY_ERROR',
+      'function call': 'NEAR_FUNCTION_CALL_FAILED',
+      'execution error': 'NEAR_EXECUTION_ERROR',
+      near: 'NEAR_ERROR',
+      NEAR: 'NEAR_ERROR',
+      'invalid account': 'NEAR_INVALID_ACCOUNT',
+      'insufficient allowance': 'NEAR_INSUFFICIENT_ALLOWANCE',
+      'contract not found': 'NEAR_CONTRACT_NOT_FOUND',
+    };
+  }
+
   /**
    * Get Near-specific fallback messages
    */
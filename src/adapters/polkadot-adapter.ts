@@ -7,7 +7,9 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import { substrateMetadataRegistry } from '../substrate-metadata-registry';
+import { findSubstrateDispatchError } from '../utils/substrate-error-decoder';
 
 /**
  * Polkadot chain adapter for Polkadot and Substrate-based blockchains
@@ -109,13 +111,21 @@ export class PolkadotAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'DispatchError') ||
         this.hasErrorProperty(error, 'BalanceTooLow') ||
         this.hasErrorProperty(error, 'ExistenceRequired') ||
-        this.hasErrorProperty(error, 'Module')
+        this.hasErrorProperty(error, 'Module') ||
+        findSubstrateDispatchError(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode dispatch errors, resolving module errors with runtime metadata
+   */
+  decodeError(error: unknown, chain?: string): DecodedChainError | null {
+    return substrateMetadataRegistry.decode(error, chain);
+  }
+
   /**
    * Get Polkadot-specific error patterns
    */
@@ -133,6 +143,23 @@ export class PolkadotAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Polkadot error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient balance': 'POLKADOT_INSUFFICIENT_BALANCE',
+      'extrinsic failed': 'POLKADOT_EXTRINSIC_FAILED',
+      'bad origin': 'POLKADOT_BAD_ORIGIN',
+      substrate: 'POLKADOT_SUBSTRATE_ERROR',
+      polkadot: 'POLKADOT_ERROR',
+      parachain: 'POLKADOT_PARACHAIN_ERROR',
+      'module error': 'POLKADOT_MODULE_ERROR',
+      'existence required': 'POLKADOT_EXISTENCE_REQUIRED',
+      'balance too low': 'POLKADOT_INSUFFICIENT_BALANCE',
+    };
+  }
+
   /**
    * Get Polkadot-specific fallback messages
    */
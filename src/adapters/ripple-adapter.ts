@@ -8,7 +8,8 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import { decodeXrplError, findXrplResult } from '../utils/xrpl-error-decoder';
 
 /**
  * Ripple (XRP) chain adapter for Ripple blockchain
@@ -96,13 +97,21 @@ export class RippleAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'ledger_error') ||
         this.hasErrorProperty(error, 'ripple') ||
         this.hasErrorProperty(error, 'xrp') ||
-        this.hasErrorProperty(error, 'payment')
+        this.hasErrorProperty(error, 'payment') ||
+        findXrplResult(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode transaction engine results with the XRPL result catalog
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeXrplError(error);
+  }
+
   /**
    * Get Ripple-specific error patterns
    */
@@ -121,6 +130,24 @@ export class RippleAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Ripple error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient funds': 'XRPL_INSUFFICIENT_FUNDS',
+      ripple: 'XRPL_ERROR',
+      xrp: 'XRPL_ERROR',
+      ledger: 'XRPL_ERROR',
+      payment: 'XRPL_PAYMENT_FAILED',
+      trustline: 'XRPL_TRUSTLINE_ERROR',
+      'account not found': 'XRPL_ACCOUNT_NOT_FOUND',
+      'invalid signature': 'XRPL_SIGNATURE_INVALID',
+      'sequence number': 'XRPL_BAD_SEQUENCE',
+      'fee too small': 'XRPL_FEE_TOO_SMALL',
+    };
+  }
+
   /**
    * Get Ripple-specific fallback messages
    */
@@ -7,7 +7,13 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import {
+  BlockchainEcosystem,
+  DecodedChainError,
+  ErrorClassificationRule,
+} from '../types';
+import { solanaProgramRegistry } from '../solana-program-registry';
+import { parseSolanaError } from '../utils/solana-error-decoder';
 
 /**
  * Solana chain adapter for Solana blockchain
@@ -82,7 +88,8 @@ export class SolanaAdapter extends BaseChainAdapter {
         error.includes('program error') ||
         error.includes('instruction error') ||
         error.includes('blockhash not found') ||
-        error.includes('signature verification failed')
+        error.includes('signature verification failed') ||
+        parseSolanaError(error) !== null
       );
     }
 
@@ -93,13 +100,21 @@ export class SolanaAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'ProgramError') ||
         this.hasErrorProperty(error, 'slot') ||
         this.hasErrorProperty(error, 'blockhash') ||
-        this.hasErrorProperty(error, 'signature')
+        this.hasErrorProperty(error, 'signature') ||
+        parseSolanaError(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode Solana transaction, instruction and program errors
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return solanaProgramRegistry.decode(error);
+  }
+
   /**
    * Get Solana-specific error patterns
    */
@@ -110,6 +125,7 @@ export class SolanaAdapter extends BaseChainAdapter {
       'program error': 'Solana program execution failed',
       'instruction error': 'Instruction execution failed',
       'blockhash not found': 'Blockhash expired or not found',
+      'block height exceeded': 'Blockhash expired before confirmation',
       'signature verification failed': 'Transaction signature is invalid',
       'duplicate signature': 'Transaction signature already exists',
       'invalid account owner': 'Account owner is invalid',
@@ -118,6 +134,38 @@ export class SolanaAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Solana error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient funds': 'SOLANA_INSUFFICIENT_FUNDS',
+      'account not found': 'SOLANA_ACCOUNT_NOT_FOUND',
+      'program error': 'SOLANA_PROGRAM_ERROR',
+      'instruction error': 'SOLANA_INSTRUCTION_ERROR',
+      'blockhash not found': 'SOLANA_BLOCKHASH_NOT_FOUND',
+      'block height exceeded': 'SOLANA_BLOCKHASH_EXPIRED',
+      'signature verification failed': 'SOLANA_SIGNATURE_INVALID',
+      'duplicate signature': 'SOLANA_DUPLICATE_SIGNATURE',
+      'invalid account owner': 'SOLANA_INVALID_ACCOUNT_OWNER',
+      'account already in use': 'SOLANA_ACCOUNT_IN_USE',
+      'invalid account data': 'SOLANA_INVALID_ACCOUNT_DATA',
+    };
+  }
+
+  /**
+   * Get Solana retryability overrides
+   */
+  override getErrorClassifications(): Record<string, ErrorClassificationRule> {
+    return {
+      // Expired blockhashes are fixed by fetching a new one
+      'blockhash not found': { retryable: true, retryStrategy: 'resync' },
+      'block height exceeded': { retryable: true, retryStrategy: 'resync' },
+      // Slots are ~400ms, so RPC hiccups clear quickly
+      network: { retryable: true, retryStrategy: 'backoff', backoffMs: 500 },
+    };
+  }
+
   /**
    * Get Solana-specific fallback messages
    */
@@ -8,7 +8,11 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import {
+  decodeStellarError,
+  findHorizonProblem,
+} from '../utils/stellar-error-decoder';
 
 /**
  * Stellar chain adapter for Stellar blockchain
@@ -96,13 +100,21 @@ export class StellarAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'horizon_error') ||
         this.hasErrorProperty(error, 'stellar') ||
         this.hasErrorProperty(error, 'xlm') ||
-        this.hasErrorProperty(error, 'trustline')
+        this.hasErrorProperty(error, 'trustline') ||
+        findHorizonProblem(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode Horizon problem documents and their result codes
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeStellarError(error);
+  }
+
   /**
    * Get Stellar-specific error patterns
    */
@@ -121,6 +133,24 @@ export class StellarAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Stellar error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient balance': 'STELLAR_INSUFFICIENT_BALANCE',
+      'operation failed': 'STELLAR_OPERATION_FAILED',
+      stellar: 'STELLAR_ERROR',
+      horizon: 'STELLAR_HORIZON_ERROR',
+      xlm: 'STELLAR_TOKEN_ERROR',
+      trustline: 'STELLAR_TRUSTLINE_ERROR',
+      'account not found': 'STELLAR_ACCOUNT_NOT_FOUND',
+      'invalid signature': 'STELLAR_SIGNATURE_INVALID',
+      'sequence number': 'STELLAR_BAD_SEQUENCE',
+      'fee too small': 'STELLAR_FEE_TOO_SMALL',
+    };
+  }
+
   /**
    * Get Stellar-specific fallback messages
    */
@@ -8,7 +8,12 @@
  */
 
 import { BaseChainAdapter } from './base-adapter';
-import { BlockchainEcosystem } from '../types';
+import { BlockchainEcosystem, DecodedChainError } from '../types';
+import {
+  decodeTezosError,
+  findTezosErrors,
+  findTezosFailwith,
+} from '../utils/tezos-error-decoder';
 
 /**
  * Tezos chain adapter for Tezos blockchain
@@ -29,6 +34,12 @@ export class TezosAdapter extends BaseChainAdapter {
     if (error && typeof error === 'object') {
       const errorObj = error as Record<string, unknown>;
 
+      // Value passed to FAILWITH by a rejected Michelson script
+      const failwith = findTezosFailwith(error);
+      if (failwith !== null) {
+        return failwith;
+      }
+
       // Tezos API error format
       if (typeof errorObj.message === 'string') {
         return errorObj.message;
@@ -99,13 +110,21 @@ export class TezosAdapter extends BaseChainAdapter {
         this.hasErrorProperty(error, 'validation_error') ||
         this.hasErrorProperty(error, 'network_error') ||
         this.hasErrorProperty(error, 'operation') ||
-        this.hasErrorProperty(error, 'xtz')
+        this.hasErrorProperty(error, 'xtz') ||
+        findTezosErrors(error) !== null
       );
     }
 
     return false;
   }
 
+  /**
+   * Decode RPC error lists with the Tezos error catalog
+   */
+  decodeError(error: unknown): DecodedChainError | null {
+    return decodeTezosError(error);
+  }
+
   /**
    * Get Tezos-specific error patterns
    */
@@ -123,6 +142,23 @@ export class TezosAdapter extends BaseChainAdapter {
     };
   }
 
+  /**
+   * Get stable error codes for the Tezos error patterns
+   */
+  getErrorCodes(): Record<string, string> {
+    return {
+      'insufficient balance': 'TEZOS_INSUFFICIENT_BALANCE',
+      'script failed': 'TEZOS_SCRIPT_FAILED',
+      'invalid operation': 'TEZOS_INVALID_OPERATION',
+      tezos: 'TEZOS_ERROR',
+      michelson: 'TEZOS_MICHELSON_ERROR',
+      xtz: 'TEZOS_TOKEN_ERROR',
+      'account not found': 'TEZOS_ACCOUNT_NOT_FOUND',
+      'contract not found': 'TEZOS_CONTRACT_NOT_FOUND',
+      'fee too small': 'TEZOS_FEE_TOO_SMALL',
+    };
+  }
+
   /**
    * Get Tezos-specific fallback messages
    */
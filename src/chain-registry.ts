@@ -6,7 +6,13 @@
  * with their specific error patterns and fallback messages.
  */
 
-import { CustomChainConfig, ChainRegistry, ErrorMapping } from './types';
+import {
+  CustomChainConfig,
+  ChainRegistry,
+  ErrorMapping,
+  BlockchainEcosystem,
+} from './types';
+import { isChainSupported } from './data/chain-registry';
 
 /**
  * In-memory registry for custom chain configurations
@@ -146,6 +152,18 @@ class CustomChainRegistry implements ChainRegistry {
     return config?.customFallbacks;
   }
 
+  /**
+   * Get the blockchain ecosystem of a specific chain
+   * 
+   * @param chainId - The chain identifier
+   * @returns The declared ecosystem, `evm` for chains that do not declare one,
+   * or undefined if the chain is not registered
+   */
+  getEcosystem(chainId: string): BlockchainEcosystem | undefined {
+    const config = this.get(chainId);
+    return config && (config.ecosystem ?? 'evm');
+  }
+
   /**
    * Validate a chain configuration
    * 
@@ -165,14 +183,42 @@ class CustomChainRegistry implements ChainRegistry {
       throw new Error('errorMappings must be an array');
     }
     
-    // Validate error mappings
-    config.errorMappings.forEach((mapping, index) => {
+    this.validateMappings(config.errorMappings, 'errorMappings');
+
+    if (config.extends !== undefined) {
+      if (!isChainSupported(config.extends)) {
+        throw new Error('extends must be a built-in chain');
+      }
+
+      if (config.ecosystem && config.ecosystem !== 'evm') {
+        throw new Error('Only EVM chains can extend a built-in chain');
+      }
+    }
+
+    Object.entries(config.categoryOverrides ?? {}).forEach(([category, mappings]) => {
+      if (!Array.isArray(mappings)) {
+        throw new Error(`categoryOverrides.${category} must be an array`);
+      }
+
+      this.validateMappings(mappings, `categoryOverrides.${category}`);
+    });
+  }
+
+  /**
+   * Validate error mappings of a chain configuration
+   * 
+   * @param mappings - The mappings to validate
+   * @param path - Configuration path of the mappings, used in error messages
+   * @throws Error if a mapping is invalid
+   */
+  private validateMappings(mappings: ErrorMapping[], path: string): void {
+    mappings.forEach((mapping, index) => {
       if (!mapping.pattern || typeof mapping.pattern !== 'string') {
-        throw new Error(`errorMappings[${index}].pattern must be a non-empty string`);
+        throw new Error(`${path}[${index}].pattern must be a non-empty string`);
       }
       
       if (!mapping.message || typeof mapping.message !== 'string') {
-        throw new Error(`errorMappings[${index}].message must be a non-empty string`);
+        throw new Error(`${path}[${index}].message must be a non-empty string`);
       }
     });
   }
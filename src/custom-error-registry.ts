@@ -0,0 +1,285 @@
+/**
+ * Custom error registry for Solidity custom errors
+ *
+ * This module provides a registry of Solidity custom errors (4-byte selectors)
+ * built from user-supplied contract ABIs or bare error signatures. Errors can
+ * be scoped to a chain and/or contract address and carry message templates
+ * that are interpolated with the decoded error arguments. A bundled table of
+ * well-known protocol errors is consulted when no registered error matches.
+ */
+
+import {
+  AbiErrorFragment,
+  AbiValue,
+  CustomErrorConfig,
+  CustomErrorDefinition,
+  DecodedRevert,
+} from './types';
+import {
+  computeSelector,
+  formatErrorSignature,
+  parseErrorSignature,
+} from './utils/abi-decoder';
+import { decodeCustomErrorData } from './utils/revert-decoder';
+import { i18nManager } from './services/i18n-manager';
+import { loadBuiltInCustomErrors } from './mapping-loader';
+
+/**
+ * Scope used to resolve a selector to a registered custom error
+ */
+export interface CustomErrorScope {
+  chain?: string;
+  address?: string;
+}
+
+/**
+ * In-memory registry for custom error definitions
+ */
+class CustomErrorRegistry {
+  private errors = new Map<string, CustomErrorDefinition[]>();
+  private builtIns: Map<string, CustomErrorDefinition> | null = null;
+
+  /**
+   * Register custom errors from a contract ABI or error signatures
+   *
+   * @param config - The ABI and scope to register
+   * @returns The registered error definitions
+   * @throws Error if a signature cannot be parsed
+   *
+   * @example
+   * ```typescript
+   * registry.register({
+   *   abi: ['error InsufficientShares(uint256 have, uint256 want)'],
+   *   chain: 'ethereum',
+   *   address: '0x1234...',
+   *   messages: {
+   *     InsufficientShares: 'You have {{have}} shares but need {{want}}.',
+   *   },
+   * });
+   * ```
+   */
+  register(config: CustomErrorConfig): CustomErrorDefinition[] {
+    if (!Array.isArray(config.abi)) {
+      throw new Error('abi must be an array');
+    }
+
+    const definitions = config.abi
+      .filter(
+        (entry): entry is string | AbiErrorFragment =>
+          typeof entry === 'string' || entry.type === 'error'
+      )
+      .map(entry => this.createDefinition(entry, config));
+
+    definitions.forEach(definition => {
+      const existing = this.errors.get(definition.selector) ?? [];
+      this.errors.set(definition.selector, [...existing, definition]);
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Resolve a selector to the most specific matching definition
+   *
+   * Definitions scoped to the contract address win over chain-scoped ones,
+   * which win over global ones. Later registrations win ties. Built-in
+   * definitions are only used when no registered definition matches.
+   *
+   * @param selector - The 4-byte selector (e.g. `0x1f2a2005`)
+   * @param scope - Chain and contract address of the revert
+   * @returns The matching definition or undefined
+   */
+  resolve(
+    selector: string,
+    scope: CustomErrorScope = {}
+  ): CustomErrorDefinition | undefined {
+    const candidates = this.errors.get(selector.toLowerCase()) ?? [];
+    const address = scope.address?.toLowerCase();
+
+    let best: CustomErrorDefinition | undefined;
+    let bestScore = -1;
+    candidates.forEach(candidate => {
+      if (candidate.chain && candidate.chain !== scope.chain) return;
+      if (candidate.address && candidate.address !== address) return;
+
+      const score = (candidate.address ? 2 : 0) + (candidate.chain ? 1 : 0);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    });
+
+    return best ?? this.getBuiltIns().get(selector.toLowerCase());
+  }
+
+  /**
+   * Decode custom error revert data
+   *
+   * @param data - Hex encoded revert data, including the 4-byte selector
+   * @param scope - Chain and contract address of the revert
+   * @returns The decoded revert or null if the selector is unknown
+   */
+  decode(data: string, scope: CustomErrorScope = {}): DecodedRevert | null {
+    const definition = this.resolve(data.slice(0, 10), scope);
+    return definition ? decodeCustomErrorData(data, definition) : null;
+  }
+
+  /**
+   * Format the message for a decoded custom error
+   *
+   * A `customErrors.<ErrorName>` translation for the target language takes
+   * precedence over the registered template. Both are interpolated with the
+   * decoded arguments.
+   *
+   * @param revert - The decoded custom error
+   * @param scope - Chain and contract address of the revert
+   * @param language - Target language
+   * @returns The formatted message or null if no message is available
+   */
+  formatMessage(
+    revert: DecodedRevert,
+    scope: CustomErrorScope = {},
+    language?: string
+  ): string | null {
+    if (revert.kind !== 'custom' || !revert.name) {
+      return null;
+    }
+
+    const params = toTranslationParams(revert.args ?? {});
+    const key = `customErrors.${revert.name}`;
+    const translated = i18nManager.translate(key, language, params);
+    if (translated !== key) {
+      return translated;
+    }
+
+    const template = this.resolve(revert.selector, scope)?.message;
+    return template ? i18nManager.interpolate(template, params) : null;
+  }
+
+  /**
+   * Get all registered definitions (excluding built-in definitions)
+   */
+  getAll(): CustomErrorDefinition[] {
+    return Array.from(this.errors.values()).flat();
+  }
+
+  /**
+   * Get the built-in definitions keyed by selector, loading them on first use
+   */
+  getBuiltIns(): Map<string, CustomErrorDefinition> {
+    if (!this.builtIns) {
+      this.builtIns = new Map(
+        loadBuiltInCustomErrors().map(definition => [
+          definition.selector,
+          definition,
+        ])
+      );
+    }
+    return this.builtIns;
+  }
+
+  /**
+   * Check if a selector is registered or built in
+   */
+  has(selector: string): boolean {
+    const key = selector.toLowerCase();
+    return this.errors.has(key) || this.getBuiltIns().has(key);
+  }
+
+  /**
+   * Clear all registered custom errors (built-in definitions are kept)
+   */
+  clear(): void {
+    this.errors.clear();
+  }
+
+  /**
+   * Create a definition from a signature or ABI fragment
+   */
+  private createDefinition(
+    entry: string | AbiErrorFragment,
+    config: CustomErrorConfig
+  ): CustomErrorDefinition {
+    const { name, inputs = [] } =
+      typeof entry === 'string' ? parseErrorSignature(entry) : entry;
+
+    if (!name || typeof name !== 'string') {
+      throw new Error('Custom error name must be a non-empty string');
+    }
+
+    const signature = formatErrorSignature(name, inputs);
+    const message = config.messages?.[name];
+
+    return {
+      name,
+      signature,
+      selector: computeSelector(signature),
+      inputs,
+      ...(config.chain && { chain: config.chain }),
+      ...(config.address && { address: config.address.toLowerCase() }),
+      ...(message && { message }),
+    };
+  }
+}
+
+/**
+ * Flatten decoded arguments into interpolation parameters
+ */
+function toTranslationParams(
+  args: Record<string, AbiValue>
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  Object.entries(args).forEach(([key, value]) => {
+    params[key] = Array.isArray(value) ? JSON.stringify(value) : String(value);
+  });
+  return params;
+}
+
+// Global registry instance
+export const customErrorRegistry = new CustomErrorRegistry();
+
+/**
+ * Register Solidity custom errors from a contract ABI or error signatures
+ *
+ * @param config - The ABI, scope and message templates to register
+ * @returns The registered error definitions
+ *
+ * @example
+ * ```typescript
+ * import { registerCustomErrors } from 'web3-error-helper';
+ *
+ * registerCustomErrors({
+ *   abi: vaultAbi,
+ *   address: '0x1234...',
+ *   messages: {
+ *     InsufficientShares: 'You have {{have}} shares but need {{want}}.',
+ *   },
+ * });
+ * ```
+ */
+export function registerCustomErrors(
+  config: CustomErrorConfig
+): CustomErrorDefinition[] {
+  return customErrorRegistry.register(config);
+}
+
+/**
+ * Get the custom error registered for a selector
+ *
+ * @param selector - The 4-byte selector
+ * @param scope - Chain and contract address of the revert
+ * @returns The matching definition or undefined
+ */
+export function getCustomError(
+  selector: string,
+  scope?: CustomErrorScope
+): CustomErrorDefinition | undefined {
+  return customErrorRegistry.resolve(selector, scope);
+}
+
+/**
+ * Clear all registered custom errors (built-in definitions are kept)
+ */
+export function clearCustomErrors(): void {
+  customErrorRegistry.clear();
+}
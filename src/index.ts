@@ -8,15 +8,47 @@
  */
 
 import { loadAllTranslations } from './services/translation-loader';
+import { loadAllErrorCategories } from './services/category-loader';
 
-// Load all translations on module initialization
+// Load all translations and error categories on module initialization.
+// The `lazy` entry point skips this and imports them on demand.
 loadAllTranslations();
+loadAllErrorCategories();
 
 export {
   translateError,
+  translateErrorAsync,
+  translateErrors,
   setTimestampForTesting,
   resetTimestampForTesting,
 } from './services/error-translation';
+export { retryWeb3Call, withErrorTranslation } from './services/web3-call';
+export {
+  TranslatedWeb3Error,
+  WalletError,
+  GasError,
+  NetworkError,
+  TransactionError,
+  NonceError,
+  TokenError,
+  ContractRevertError,
+  createTranslatedError,
+  toTranslatedError,
+} from './translated-error';
+export {
+  ConsoleErrorLogger,
+  ErrorSeverity,
+  setErrorLogger,
+  setLogLevel,
+  getLogLevel,
+  disableLogging,
+} from './services/error-logger';
+export {
+  MemoryTranslationCacheStore,
+  configureTranslationCache,
+  clearTranslationCache,
+  getTranslationCacheStats,
+} from './services/translation-cache';
 export { getAvailableChains } from './chain-manager';
 export {
   registerCustomChain,
@@ -72,6 +104,37 @@ export {
   getTranslationKeysByEcosystem,
 } from './utils/translation-keys';
 
+export {
+  registerCustomErrors,
+  getCustomError,
+  clearCustomErrors,
+} from './custom-error-registry';
+export {
+  registerSolanaProgramErrors,
+  registerAnchorIdl,
+  getSolanaProgramError,
+  clearSolanaProgramErrors,
+} from './solana-program-registry';
+export {
+  registerSubstrateMetadata,
+  getSubstrateError,
+  clearSubstrateMetadata,
+} from './substrate-metadata-registry';
+
+export {
+  decodeRevertData,
+  findRevertData,
+  ERROR_STRING_SELECTOR,
+  PANIC_SELECTOR,
+} from './utils/revert-decoder';
+export {
+  computeSelector,
+  decodeAbiParameters,
+  parseErrorSignature,
+} from './utils/abi-decoder';
+export { findBestMatch, scoreMatch } from './utils/pattern-matcher';
+export { ERROR_ACTION_TYPES } from './types';
+
 export {
   EVMAdapter,
   SolanaAdapter,
@@ -89,9 +152,25 @@ export {
 
 export type {
   TranslateErrorOptions,
+  RetryWeb3CallOptions,
   ErrorTranslationResult,
   EnhancedErrorResult,
+  BatchTranslationResult,
+  BatchTranslationStats,
   ErrorMapping,
+  ErrorMatchMode,
+  ErrorAction,
+  ErrorActionDefinition,
+  ErrorActionType,
+  ErrorClassificationRule,
+  ErrorSeverityLevel,
+  RetryStrategy,
+  MappingCandidate,
+  TranslationTrace,
+  CachedTranslation,
+  TranslationCacheStore,
+  TranslationCacheOptions,
+  TranslationCacheStats,
   TranslatableError,
   SupportedChain,
   Web3Error,
@@ -104,6 +183,41 @@ export type {
   ErrorType,
   BlockchainEcosystem,
   ChainAdapter,
+  DecodedRevert,
+  AbiParameter,
+  AbiValue,
+  AbiErrorFragment,
+  CustomErrorConfig,
+  CustomErrorDefinition,
+  BuiltInCustomError,
+  CustomErrorSelectorTable,
+  DecodedChainError,
+  SolanaProgramError,
+  SolanaProgramErrorConfig,
+  AnchorIdl,
+  AnchorIdlError,
+  AnchorIdlOptions,
+  SolanaErrorTable,
+  CosmosErrorTable,
+  CosmosErrorVariant,
+  SubstrateErrorTable,
+  SubstratePalletErrors,
+  SubstratePalletErrorVariant,
+  SubstrateErrorMetadata,
+  SubstrateMetadataOptions,
+  NearErrorTable,
+  NearErrorVariant,
+  XrplErrorTable,
+  XrplResultClass,
+  XrplResultVariant,
+  StellarErrorTable,
+  StellarErrorVariant,
+  DecodedOperationError,
+  TezosErrorTable,
+  TezosErrorVariant,
+  AlgorandErrorTable,
+  AlgorandErrorVariant,
+  ChainErrorVariant,
 } from './types';
 
 export type {
@@ -144,3 +258,13 @@ export type {
   ChainConfig as RegistryChainConfig,
   ChainErrorConfig as RegistryChainErrorConfig,
 } from './data/chain-registry';
+
+export type {
+  ErrorLogger,
+  ErrorContext,
+  LogLevel,
+} from './services/error-logger';
+
+export type { TranslatedWeb3ErrorOptions } from './translated-error';
+export type { ResolvedSolanaProgramError } from './solana-program-registry';
+export type { ResolvedSubstrateError } from './substrate-metadata-registry';
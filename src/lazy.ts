@@ -0,0 +1,42 @@
+/**
+ * Lazy entry point for web3-error-helper
+ *
+ * Unlike the main entry point, this module does not load every translation
+ * and error category on initialization. `translateErrorAsync` imports the
+ * translation file of the requested language and the error categories
+ * enabled for the chain on first use, and the remaining languages and
+ * categories are never loaded.
+ *
+ * @example
+ * ```typescript
+ * import { translateErrorAsync } from 'web3-error-helper/dist/lazy';
+ *
+ * const result = await translateErrorAsync(error, { language: 'es' });
+ * ```
+ */
+
+export { translateErrorAsync } from './services/error-translation';
+export { loadErrorMappingsAsync } from './mapping-loader';
+export {
+  registerLocale,
+  setCurrentLanguage,
+  getCurrentLanguage,
+  isLanguageSupported,
+} from './services/i18n-manager';
+export {
+  configureLanguageSelection,
+  getAvailableLanguages,
+  getLoadedLanguages,
+  isLanguageLoaded,
+  loadLanguage,
+  unloadLanguage,
+} from './services/language-bundle-manager';
+export { registerCustomChain, unregisterCustomChain } from './chain-registry';
+
+export type {
+  TranslateErrorOptions,
+  EnhancedErrorResult,
+  TranslatableError,
+  ErrorMapping,
+  CustomChainConfig,
+} from './types';
@@ -12,38 +12,110 @@ import {
   ChainErrorMappings,
   SupportedChain,
   EVMErrorType,
+  CustomErrorDefinition,
+  CustomErrorSelectorTable,
+  BlockchainEcosystem,
 } from './types';
+import { adapterRegistry } from './adapters';
 import { customChainRegistry } from './chain-registry';
-import { getEnabledErrorCategories } from './data/chain-registry';
-
-// Import error mappings
-import * as evmMappings from './errors/evm.json';
-import * as gasMappings from './errors/gas.json';
-import * as erc20Mappings from './errors/erc20.json';
-import * as walletMappings from './errors/wallet.json';
-import * as networkMappings from './errors/network.json';
-import * as contractMappings from './errors/contract.json';
-import * as transactionMappings from './errors/transaction.json';
-
-/**
- * Error category mappings
- */
-const ERROR_CATEGORY_MAPPINGS: Record<string, ChainErrorMappings> = {
-  erc20: erc20Mappings as ChainErrorMappings,
-  gas: gasMappings as ChainErrorMappings,
-  wallet: walletMappings as ChainErrorMappings,
-  network: networkMappings as ChainErrorMappings,
-  transaction: transactionMappings as ChainErrorMappings,
-  evm: evmMappings as ChainErrorMappings,
-  contract: contractMappings as ChainErrorMappings,
+import {
+  getEnabledErrorCategories,
+  isChainSupported,
+} from './data/chain-registry';
+import { formatErrorSignature, parseErrorSignature } from './utils/abi-decoder';
+
+import * as customErrorSelectors from './errors/custom-errors.json';
+
+/**
+ * Tag every mapping of a category file with the file's category and apply
+ * the file's default classification
+ */
+function withCategory({
+  chain,
+  category,
+  defaults,
+  mappings,
+}: ChainErrorMappings): ChainErrorMappings {
+  return {
+    chain,
+    category,
+    defaults,
+    mappings: mappings.map(mapping => ({
+      ...defaults,
+      ...(category && { category }),
+      ...mapping,
+    })),
+  };
+}
+
+/**
+ * Error category mappings loaded so far, either registered by
+ * `registerErrorCategories` or imported by `loadErrorMappingsAsync`
+ */
+const ERROR_CATEGORY_MAPPINGS: Record<string, ChainErrorMappings> = {};
+
+/**
+ * Dynamic importers for each error category, used by `loadErrorMappingsAsync`
+ *
+ * The category files are not imported anywhere else in this module, so
+ * only the categories a chain enables are loaded.
+ */
+const ERROR_CATEGORY_IMPORTERS: Record<
+  string,
+  () => Promise<ChainErrorMappings>
+> = {
+  erc20: () => import('./errors/erc20.json') as Promise<ChainErrorMappings>,
+  gas: () => import('./errors/gas.json') as Promise<ChainErrorMappings>,
+  wallet: () => import('./errors/wallet.json') as Promise<ChainErrorMappings>,
+  network: () => import('./errors/network.json') as Promise<ChainErrorMappings>,
+  transaction: () =>
+    import('./errors/transaction.json') as Promise<ChainErrorMappings>,
+  evm: () => import('./errors/evm.json') as Promise<ChainErrorMappings>,
+  contract: () =>
+    import('./errors/contract.json') as Promise<ChainErrorMappings>,
 };
 
+/**
+ * Priority of ecosystem adapter patterns: above the built-in category
+ * mappings, below custom mappings passed to `translateError`
+ */
+export const ECOSYSTEM_MAPPING_PRIORITY = 20;
+
+/**
+ * Error categories imported on demand
+ */
+const importedCategories = new Map<string, Promise<ChainErrorMappings>>();
+
+/**
+ * Built-in custom error selectors (OpenZeppelin, Uniswap, Permit2, Aave, ...)
+ */
+const BUILT_IN_CUSTOM_ERRORS = customErrorSelectors as CustomErrorSelectorTable;
+
+/**
+ * Register the mappings of built-in error categories
+ *
+ * Called with every category file by the main entry point, so the
+ * synchronous loaders see all categories.
+ *
+ * @param categories - Category files keyed by category name
+ */
+export function registerErrorCategories(
+  categories: Record<string, ChainErrorMappings>
+): void {
+  Object.entries(categories).forEach(([category, mappings]) => {
+    const categoryMappings = withCategory(mappings);
+    ERROR_CATEGORY_MAPPINGS[category] = categoryMappings;
+    importedCategories.set(category, Promise.resolve(categoryMappings));
+  });
+}
+
 /**
  * Load error mappings for a specific blockchain network
  *
  * This function loads all error mappings for the specified chain, including ERC20, gas,
  * wallet, network, transaction, EVM, and contract errors. Mappings are sorted by priority
  * (higher priority first) to ensure the most specific matches are found first.
+ * Only registered or already imported categories are included.
  *
  * @param chain - The blockchain network to load mappings for. Defaults to Ethereum.
  * @returns Array of error mappings sorted by priority (highest first)
@@ -56,47 +128,200 @@ const ERROR_CATEGORY_MAPPINGS: Record<string, ChainErrorMappings> = {
  * // Load Polygon error mappings
  * const polygonMappings = loadErrorMappings(SupportedChain.POLYGON);
  *
- * // Load custom chain mappings (falls back to Ethereum mappings)
+ * // Load custom chain mappings (its own mappings, then the categories of the
+ * // chain it extends, or the patterns of its ecosystem adapter)
  * const customMappings = loadErrorMappings('custom-chain');
  * ```
  */
 export function loadErrorMappings(
   chain: SupportedChain | string = SupportedChain.ETHEREUM
 ): ErrorMapping[] {
-  const allMappings: ErrorMapping[] = [];
+  // Check for custom chain first
+  const allMappings: ErrorMapping[] = loadCustomChainMappings(chain);
 
+  // Load built-in categories based on chain configuration
+  getCategoriesForChain(chain).forEach(category => {
+    const categoryMappings =
+      getCategoryOverride(chain, category) ??
+      ERROR_CATEGORY_MAPPINGS[category]?.mappings;
+    if (categoryMappings) {
+      allMappings.push(...categoryMappings);
+    }
+  });
+
+  // Sort by priority using nullish coalescing
+  return allMappings.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Load error mappings for a specific blockchain network on demand
+ *
+ * Works like `loadErrorMappings`, but only the error categories enabled for
+ * the chain are imported, so bundlers can split the remaining categories out
+ * of the initial bundle. Imported categories are reused by later calls.
+ *
+ * @param chain - The blockchain network to load mappings for. Defaults to Ethereum.
+ * @returns Promise resolving to error mappings sorted by priority (highest first)
+ *
+ * @example
+ * ```typescript
+ * const polygonMappings = await loadErrorMappingsAsync(SupportedChain.POLYGON);
+ * ```
+ */
+export async function loadErrorMappingsAsync(
+  chain: SupportedChain | string = SupportedChain.ETHEREUM
+): Promise<ErrorMapping[]> {
   // Check for custom chain first
-  if (customChainRegistry.has(chain)) {
-    const customMappings = customChainRegistry.getErrorMappings(chain);
-    allMappings.push(...customMappings);
+  const allMappings: ErrorMapping[] = loadCustomChainMappings(chain);
+
+  // Overridden categories are not imported
+  const categories = await Promise.all(
+    getCategoriesForChain(chain).map(
+      async category =>
+        getCategoryOverride(chain, category) ??
+        (await importCategoryMappings(category))?.mappings
+    )
+  );
+  categories.forEach(categoryMappings => {
+    if (categoryMappings) {
+      allMappings.push(...categoryMappings);
+    }
+  });
+
+  return allMappings.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Get the error categories enabled for a chain
+ *
+ * Custom chains inherit the categories of the chain they extend, non-EVM
+ * custom chains inherit none, and overridden categories are always included.
+ */
+function getCategoriesForChain(chain: SupportedChain | string): string[] {
+  const config = customChainRegistry.get(chain);
+  if (config) {
+    const inherited = config.extends
+      ? getCategoriesForChain(config.extends)
+      : customChainRegistry.getEcosystem(chain) === 'evm'
+        ? Object.keys(ERROR_CATEGORY_IMPORTERS)
+        : [];
+    const added = Object.keys(config.categoryOverrides ?? {}).filter(
+      category => !inherited.includes(category)
+    );
+    return [...inherited, ...added];
   }
 
-  // Load built-in categories based on chain configuration
-  if (
-    typeof chain === 'string' &&
-    Object.values(SupportedChain).includes(chain as SupportedChain)
-  ) {
-    const enabledCategories = getEnabledErrorCategories(
-      chain as SupportedChain
+  if (isChainSupported(chain)) {
+    return getEnabledErrorCategories(chain).map(
+      categoryConfig => categoryConfig.category
     );
+  }
 
-    enabledCategories.forEach(categoryConfig => {
-      const categoryMappings = ERROR_CATEGORY_MAPPINGS[categoryConfig.category];
-      if (categoryMappings) {
-        allMappings.push(...categoryMappings.mappings);
-      }
-    });
-  } else {
-    // Fallback to all categories for unsupported chains
-    Object.values(ERROR_CATEGORY_MAPPINGS).forEach(category => {
-      if (category) {
-        allMappings.push(...category.mappings);
-      }
-    });
+  // Fallback to all categories for unsupported chains
+  return Object.keys(ERROR_CATEGORY_IMPORTERS);
+}
+
+/**
+ * Get the mappings a custom chain declares in place of a built-in category
+ */
+function getCategoryOverride(
+  chain: SupportedChain | string,
+  category: string
+): ErrorMapping[] | undefined {
+  const overrides = customChainRegistry.get(chain)?.categoryOverrides;
+  const mappings = overrides?.[category as EVMErrorType];
+  return mappings && withCategory({ chain, category, mappings }).mappings;
+}
+
+/**
+ * Load the mappings of a custom chain, followed by the patterns of its
+ * ecosystem adapter for non-EVM chains
+ *
+ * The chain's own mappings outrank the patterns of its ecosystem, which are
+ * ranked below the lowest priority the chain declares.
+ */
+function loadCustomChainMappings(
+  chain: SupportedChain | string
+): ErrorMapping[] {
+  const ecosystem = customChainRegistry.getEcosystem(chain);
+  if (!ecosystem) {
+    return [];
   }
 
-  // Sort by priority using nullish coalescing
-  return allMappings.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  const chainMappings = customChainRegistry.getErrorMappings(chain);
+  if (ecosystem === 'evm') {
+    return [...chainMappings];
+  }
+
+  const ecosystemPriority = Math.min(
+    ECOSYSTEM_MAPPING_PRIORITY,
+    ...chainMappings.map(mapping => (mapping.priority ?? 0) - 1)
+  );
+  return [
+    ...chainMappings,
+    ...loadEcosystemMappings(ecosystem, ecosystemPriority),
+  ];
+}
+
+/**
+ * Load the error patterns of an ecosystem adapter as error mappings
+ *
+ * @param ecosystem - The blockchain ecosystem
+ * @param priority - Priority of the mappings
+ * @returns Mappings built from the adapter's `getErrorPatterns()`,
+ * `getErrorCodes()` and the `getErrorClassifications()` rules keyed by
+ * pattern, or an empty array if no adapter is registered
+ *
+ * Adapter patterns are matched anywhere in the message and ranked with
+ * `ECOSYSTEM_MAPPING_PRIORITY` by default.
+ */
+export function loadEcosystemMappings(
+  ecosystem: BlockchainEcosystem,
+  priority: number = ECOSYSTEM_MAPPING_PRIORITY
+): ErrorMapping[] {
+  const adapter = adapterRegistry.getAdapter(ecosystem);
+  if (!adapter) {
+    return [];
+  }
+
+  const codes = adapter.getErrorCodes?.() ?? {};
+  const classifications = adapter.getErrorClassifications?.() ?? {};
+  return Object.entries(adapter.getErrorPatterns()).map(
+    ([pattern, message]) => ({
+      pattern,
+      message,
+      matchMode: 'contains' as const,
+      priority,
+      ...(codes[pattern] && { code: codes[pattern] }),
+      ...classifications[pattern],
+    })
+  );
+}
+
+/**
+ * Import the mappings of a category, reusing earlier imports
+ */
+function importCategoryMappings(
+  category: string
+): Promise<ChainErrorMappings | undefined> {
+  const importer = ERROR_CATEGORY_IMPORTERS[category];
+  if (!importer) {
+    return Promise.resolve(undefined);
+  }
+
+  let categoryMappings = importedCategories.get(category);
+  if (!categoryMappings) {
+    categoryMappings = importer().then(imported => {
+      // ES module interop exposes the JSON object as the default export
+      const mappings = withCategory(
+        (imported as { default?: ChainErrorMappings }).default ?? imported
+      );
+      ERROR_CATEGORY_MAPPINGS[category] = mappings;
+      return mappings;
+    });
+    importedCategories.set(category, categoryMappings);
+  }
+  return categoryMappings;
 }
 
 /**
@@ -132,7 +357,7 @@ export function loadCategoryMappings(
  * @returns Array of available error category names
  */
 export function getAvailableCategories(): EVMErrorType[] {
-  return Object.keys(ERROR_CATEGORY_MAPPINGS) as EVMErrorType[];
+  return Object.keys(ERROR_CATEGORY_IMPORTERS) as EVMErrorType[];
 }
 
 /**
@@ -153,19 +378,50 @@ export function hasCategoryForChain(
 /**
  * Load error categories with their mappings
  *
- * @returns Array of error categories with mappings
+ * @returns Array of error categories with mappings, empty for categories that
+ * were not loaded yet
  */
 export function loadErrorCategories(): Array<{
   type: EVMErrorType;
   mappings: ErrorMapping[];
 }> {
-  return [
-    { type: 'erc20' as const, mappings: erc20Mappings.mappings },
-    { type: 'gas' as const, mappings: gasMappings.mappings },
-    { type: 'wallet' as const, mappings: walletMappings.mappings },
-    { type: 'network' as const, mappings: networkMappings.mappings },
-    { type: 'transaction' as const, mappings: transactionMappings.mappings },
-    { type: 'contract' as const, mappings: contractMappings.mappings },
-    { type: 'evm' as const, mappings: evmMappings.mappings },
+  const types: EVMErrorType[] = [
+    'erc20',
+    'gas',
+    'wallet',
+    'network',
+    'transaction',
+    'contract',
+    'evm',
   ];
+  return types.map(type => ({
+    type,
+    mappings: ERROR_CATEGORY_MAPPINGS[type]?.mappings ?? [],
+  }));
+}
+
+/**
+ * Load the built-in custom error definitions
+ *
+ * The bundled selector table covers custom errors from widely deployed
+ * contracts (OpenZeppelin v5, Uniswap, Permit2, Aave v3.4). Definitions are
+ * global so errors registered with `registerCustomErrors` always take
+ * precedence.
+ *
+ * @returns Array of built-in custom error definitions
+ */
+export function loadBuiltInCustomErrors(): CustomErrorDefinition[] {
+  return BUILT_IN_CUSTOM_ERRORS.errors.map(
+    ({ selector, signature, source, message }) => {
+      const { name, inputs } = parseErrorSignature(signature);
+      return {
+        name,
+        signature: formatErrorSignature(name, inputs),
+        selector,
+        inputs,
+        message,
+        source,
+      };
+    }
+  );
 }
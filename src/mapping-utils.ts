@@ -7,7 +7,11 @@
  * and provides tools for maintaining mapping quality and consistency.
  */
 
-import { ErrorMapping } from './types';
+import { ERROR_ACTION_TYPES, ErrorMapping, ErrorSeverityLevel, RetryStrategy } from './types';
+import { MATCH_MODES } from './utils/pattern-matcher';
+
+const RETRY_STRATEGIES: RetryStrategy[] = ['immediate', 'backoff', 'resync'];
+const SEVERITY_LEVELS: ErrorSeverityLevel[] = ['low', 'medium', 'high', 'critical'];
 
 /**
  * Add custom error mappings to existing mappings
@@ -181,6 +185,42 @@ export function validateMapping(mapping: ErrorMapping): {
     errors.push('isRegex must be a boolean');
   }
   
+  if (mapping.revertOnly !== undefined && typeof mapping.revertOnly !== 'boolean') {
+    errors.push('revertOnly must be a boolean');
+  }
+  
+  if (mapping.contracts !== undefined && (!Array.isArray(mapping.contracts) || mapping.contracts.some(contract => typeof contract !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(contract)))) {
+    errors.push('contracts must be an array of contract addresses');
+  }
+  
+  if (mapping.matchMode !== undefined && !MATCH_MODES.includes(mapping.matchMode)) {
+    errors.push(`matchMode must be one of: ${MATCH_MODES.join(', ')}`);
+  }
+  
+  if (mapping.code !== undefined && (typeof mapping.code !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(mapping.code))) {
+    errors.push('Code must be an upper snake case string (e.g. WALLET_USER_REJECTED)');
+  }
+  
+  if (mapping.actions !== undefined && (!Array.isArray(mapping.actions) || mapping.actions.some(action => !ERROR_ACTION_TYPES.includes(action?.type)))) {
+    errors.push(`actions must be an array of actions with a type of: ${ERROR_ACTION_TYPES.join(', ')}`);
+  }
+  
+  if (mapping.retryable !== undefined && typeof mapping.retryable !== 'boolean') {
+    errors.push('retryable must be a boolean');
+  }
+  
+  if (mapping.retryStrategy !== undefined && !RETRY_STRATEGIES.includes(mapping.retryStrategy)) {
+    errors.push(`retryStrategy must be one of: ${RETRY_STRATEGIES.join(', ')}`);
+  }
+  
+  if (mapping.backoffMs !== undefined && (typeof mapping.backoffMs !== 'number' || !(mapping.backoffMs >= 0))) {
+    errors.push('backoffMs must be a non-negative number');
+  }
+  
+  if (mapping.severity !== undefined && !SEVERITY_LEVELS.includes(mapping.severity)) {
+    errors.push(`severity must be one of: ${SEVERITY_LEVELS.join(', ')}`);
+  }
+  
   return {
     isValid: errors.length === 0,
     errors
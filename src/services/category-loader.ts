@@ -0,0 +1,35 @@
+/**
+ * Category loader service for automatically loading all error category files
+ */
+
+import { registerErrorCategories } from '../mapping-loader';
+import { ChainErrorMappings } from '../types';
+
+// Import all error category files
+import * as evmMappings from '../errors/evm.json';
+import * as gasMappings from '../errors/gas.json';
+import * as erc20Mappings from '../errors/erc20.json';
+import * as walletMappings from '../errors/wallet.json';
+import * as networkMappings from '../errors/network.json';
+import * as contractMappings from '../errors/contract.json';
+import * as transactionMappings from '../errors/transaction.json';
+
+/**
+ * Category registry mapping category names to their error mappings
+ */
+const CATEGORY_REGISTRY: Record<string, ChainErrorMappings> = {
+  erc20: erc20Mappings as ChainErrorMappings,
+  gas: gasMappings as ChainErrorMappings,
+  wallet: walletMappings as ChainErrorMappings,
+  network: networkMappings as ChainErrorMappings,
+  transaction: transactionMappings as ChainErrorMappings,
+  evm: evmMappings as ChainErrorMappings,
+  contract: contractMappings as ChainErrorMappings,
+};
+
+/**
+ * Load all built-in error categories into the mapping loader
+ */
+export function loadAllErrorCategories(): void {
+  registerErrorCategories(CATEGORY_REGISTRY);
+}
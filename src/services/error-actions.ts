@@ -0,0 +1,40 @@
+/**
+ * Remediation action service
+ *
+ * This module turns the remediation actions declared on error mappings into
+ * the actions attached to translation results. Each action gets a label
+ * translated from the `actions.<type>` key, so wallet UIs can render buttons
+ * such as "Switch network" or "Approve token" in the user's language instead
+ * of parsing the error message.
+ */
+
+import { ErrorAction, ErrorActionDefinition } from '../types';
+import { i18nManager } from './i18n-manager';
+
+/**
+ * Resolve the actions declared on a mapping for a translation result
+ *
+ * `switch_network` actions default their `chain` parameter to the chain the
+ * error was translated for.
+ *
+ * @param actions - Actions declared on the matched mapping
+ * @param language - Language of the labels
+ * @param chain - Chain the error was translated for
+ * @returns Actions with parameters and localized labels
+ */
+export function resolveErrorActions(
+  actions: ErrorActionDefinition[],
+  language: string,
+  chain: string
+): ErrorAction[] {
+  return actions.map(({ type, params }) => {
+    const resolvedParams =
+      type === 'switch_network' ? { chain, ...params } : params;
+
+    return {
+      type,
+      ...(resolvedParams && { params: resolvedParams }),
+      label: i18nManager.translate(`actions.${type}`, language, resolvedParams),
+    };
+  });
+}
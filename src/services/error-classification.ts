@@ -0,0 +1,102 @@
+/**
+ * Error classification service
+ *
+ * This module decides whether a translated error can be retried, how and
+ * after which delay, and how severe it is. Rules are layered: the matched
+ * mapping (including the defaults of its category file) or decoded chain
+ * error wins over the adapter of the ecosystem, which wins over the built-in
+ * defaults for the detected error type. Transaction senders can use the
+ * result to make automated retry decisions.
+ */
+
+import {
+  ChainAdapter,
+  ErrorClassificationRule,
+  ErrorSeverityLevel,
+  ErrorType,
+  RetryStrategy,
+} from '../types';
+
+/**
+ * Resolved classification of an error
+ */
+export interface ErrorClassification {
+  retryable: boolean;
+  retryStrategy?: RetryStrategy;
+  backoffMs?: number;
+  severity: ErrorSeverityLevel;
+}
+
+/**
+ * Built-in classification for each detected error type
+ */
+const DEFAULT_CLASSIFICATIONS: Record<
+  ErrorType | 'UNKNOWN',
+  ErrorClassificationRule
+> = {
+  NETWORK: {
+    retryable: true,
+    retryStrategy: 'backoff',
+    backoffMs: 1000,
+    severity: 'medium',
+  },
+  WALLET: { retryable: false, severity: 'low' },
+  CONTRACT: { retryable: false, severity: 'high' },
+  GAS: { retryable: false, severity: 'medium' },
+  TRANSACTION: { retryable: false, severity: 'medium' },
+  UNKNOWN: { retryable: false, severity: 'medium' },
+};
+
+/**
+ * Keep only the rule fields that are set, so they do not erase lower layers
+ */
+function definedRule({
+  retryable,
+  retryStrategy,
+  backoffMs,
+  severity,
+}: ErrorClassificationRule): ErrorClassificationRule {
+  return {
+    ...(retryable !== undefined && { retryable }),
+    ...(retryStrategy && { retryStrategy }),
+    ...(backoffMs !== undefined && { backoffMs }),
+    ...(severity && { severity }),
+  };
+}
+
+/**
+ * Classify an error from its matched mapping, adapter and error type
+ *
+ * @param errorType - Detected error type
+ * @param adapter - Adapter of the error's ecosystem
+ * @param mapping - The mapping that matched or the decoded chain error, if any
+ * @returns Retryability, retry strategy, backoff and severity
+ */
+export function classifyError(
+  errorType: ErrorType | null,
+  adapter: ChainAdapter,
+  mapping?: ErrorClassificationRule | null
+): ErrorClassification {
+  const adapterRule = errorType
+    ? adapter.getErrorClassifications?.()[errorType.toLowerCase()]
+    : undefined;
+
+  const rule: ErrorClassificationRule = {
+    ...DEFAULT_CLASSIFICATIONS[errorType ?? 'UNKNOWN'],
+    ...(adapterRule && definedRule(adapterRule)),
+    ...(mapping && definedRule(mapping)),
+  };
+  const severity = rule.severity ?? 'medium';
+
+  if (!rule.retryable) {
+    return { retryable: false, severity };
+  }
+
+  return {
+    retryable: true,
+    retryStrategy:
+      rule.retryStrategy ?? (rule.backoffMs ? 'backoff' : 'immediate'),
+    ...(rule.backoffMs !== undefined && { backoffMs: rule.backoffMs }),
+    severity,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Error logging service
+ *
+ * This module provides the logger used by the translation pipeline. Logging
+ * is silent by default; applications can install their own `ErrorLogger`
+ * (e.g. a pino or winston adapter), choose a log level, or turn logging off.
+ * Loggers receive the same `ErrorContext` objects that are attached to
+ * translation results, so they can be forwarded to observability tooling.
+ */
+
+// Global type declarations for console
+declare const console: Console;
+
+/**
+ * Error severity levels for proper error categorization
+ */
+export enum ErrorSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+/**
+ * Error context for enhanced debugging and monitoring
+ */
+export interface ErrorContext {
+  timestamp: number;
+  chain: string;
+  ecosystem?: string;
+  language?: string;
+  severity: ErrorSeverity;
+  operation: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Error logging interface for monitoring and debugging
+ */
+export interface ErrorLogger {
+  logError(error: Error, context: ErrorContext): void;
+  logWarning(message: string, context: Partial<ErrorContext>): void;
+  logInfo(message: string, context?: Partial<ErrorContext>): void;
+}
+
+/**
+ * Minimum level of the messages that are logged
+ */
+export type LogLevel = 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  info: 0,
+  warn: 1,
+  error: 2,
+  silent: 3,
+};
+
+/**
+ * Default console-based error logger
+ */
+export class ConsoleErrorLogger implements ErrorLogger {
+  logError(error: Error, context: ErrorContext): void {
+    console.error(`[ERROR] ${error.message}`, {
+      ...context,
+      stack: error.stack,
+      name: error.name,
+    });
+  }
+
+  logWarning(message: string, context: Partial<ErrorContext>): void {
+    console.warn(`[WARNING] ${message}`, context);
+  }
+
+  logInfo(message: string, context?: Partial<ErrorContext>): void {
+    console.info(`[INFO] ${message}`, context);
+  }
+}
+
+/**
+ * Logger that filters messages by level before forwarding them
+ */
+class LevelFilteredLogger implements ErrorLogger {
+  private logger: ErrorLogger = new ConsoleErrorLogger();
+  private level: LogLevel = 'silent';
+
+  setLogger(logger: ErrorLogger | null): void {
+    this.logger = logger ?? new ConsoleErrorLogger();
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  getLogger(): ErrorLogger {
+    return this.logger;
+  }
+
+  logError(error: Error, context: ErrorContext): void {
+    if (this.isEnabled('error')) {
+      this.logger.logError(error, context);
+    }
+  }
+
+  logWarning(message: string, context: Partial<ErrorContext>): void {
+    if (this.isEnabled('warn')) {
+      this.logger.logWarning(message, context);
+    }
+  }
+
+  logInfo(message: string, context?: Partial<ErrorContext>): void {
+    if (this.isEnabled('info')) {
+      this.logger.logInfo(message, context);
+    }
+  }
+
+  private isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVEL_ORDER[level] >= LOG_LEVEL_ORDER[this.level];
+  }
+}
+
+/**
+ * Global error logger instance
+ */
+export const errorLogger = new LevelFilteredLogger();
+
+/**
+ * Install a custom error logger
+ *
+ * @param logger - Logger implementation, or `null` to restore the console logger
+ * @param level - Minimum level to log. Defaults to `info`.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const log = pino();
+ * setErrorLogger(
+ *   {
+ *     logError: (error, context) => log.error({ err: error, ...context }),
+ *     logWarning: (message, context) => log.warn(context, message),
+ *     logInfo: (message, context) => log.info(context, message),
+ *   },
+ *   'warn'
+ * );
+ * ```
+ */
+export function setErrorLogger(
+  logger: ErrorLogger | null,
+  level: LogLevel = 'info'
+): void {
+  errorLogger.setLogger(logger);
+  errorLogger.setLevel(level);
+}
+
+/**
+ * Set the minimum log level (`silent` disables logging)
+ */
+export function setLogLevel(level: LogLevel): void {
+  errorLogger.setLevel(level);
+}
+
+/**
+ * Get the current log level
+ */
+export function getLogLevel(): LogLevel {
+  return errorLogger.getLevel();
+}
+
+/**
+ * Disable all logging
+ */
+export function disableLogging(): void {
+  errorLogger.setLevel('silent');
+}
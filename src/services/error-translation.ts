@@ -14,8 +14,8 @@
  * @since 1.0.0
  */
 
-// Global type declarations for console
-declare const console: Console;
+// Global type declarations for structuredClone
+declare const structuredClone: <T>(value: T) => T;
 
 // Mockable timestamp function for testing
 let getTimestamp = () => Date.now();
@@ -39,17 +39,48 @@ export function resetTimestampForTesting(): void {
 import {
   TranslateErrorOptions,
   ErrorTranslationResult,
-  ErrorMapping,
+  BatchTranslationResult,
+  BatchTranslationStats,
   TranslatableError,
   SupportedChain,
   BlockchainEcosystem,
+  ChainAdapter,
+  DecodedChainError,
+  DecodedRevert,
+  ERROR_TYPE_KEYWORDS,
+  ErrorAction,
+  ErrorMapping,
+  ErrorType,
+  MappingCandidate,
+  RetryStrategy,
+  TranslationTrace,
 } from '../types';
-import { loadErrorMappings } from '../mapping-loader';
+import {
+  loadEcosystemMappings,
+  loadErrorMappings,
+  loadErrorMappingsAsync,
+} from '../mapping-loader';
 import { addCustomMappings } from '../mapping-utils';
 import { customChainRegistry } from '../chain-registry';
+import {
+  customErrorRegistry,
+  CustomErrorScope,
+} from '../custom-error-registry';
 import { detectErrorType } from '../utils/error-type-detection';
+import {
+  findBestMatch,
+  getMatchMode,
+  scoreMatch,
+} from '../utils/pattern-matcher';
+import { findContractAddress, findRevertData } from '../utils/revert-decoder';
+import { toConstantCase } from '../utils/decoded-error';
 import { adapterRegistry } from '../adapters';
+import { resolveErrorActions } from './error-actions';
+import { classifyError } from './error-classification';
+import { ErrorContext, ErrorSeverity, errorLogger } from './error-logger';
 import { i18nManager } from './i18n-manager';
+import { createCacheKey, translationCache } from './translation-cache';
+import { languageBundleManager } from './language-bundle-manager';
 import { languageDetectionService } from './language-detection';
 
 /**
@@ -65,237 +96,270 @@ const DEFAULT_FALLBACK_MESSAGES = {
     'Smart contract error occurred. Please check the transaction details and try again.',
 } as const;
 
-/**
- * Error severity levels for proper error categorization
- */
-
-enum ErrorSeverity {
-  LOW = 'low',
-  MEDIUM = 'medium',
-  HIGH = 'high', // Reserved for future use
-  CRITICAL = 'critical',
-}
-
 // Export the enum for potential future use
 export { ErrorSeverity };
 
-/**
- * Error context for enhanced debugging and monitoring
- */
-interface ErrorContext {
-  timestamp: number;
-  chain: string;
-  ecosystem?: string;
-  language?: string;
-  severity: ErrorSeverity;
-  operation: string;
-  metadata?: Record<string, unknown>;
-}
-
 /**
  * Enhanced error result with comprehensive context
  */
 interface EnhancedErrorResult extends ErrorTranslationResult {
   context: ErrorContext;
   retryable: boolean;
+  retryStrategy?: RetryStrategy;
+  backoffMs?: number;
   fallbackUsed: boolean;
+  code: string;
+  category: string;
+  actions?: ErrorAction[];
+  revert?: DecodedRevert;
+  decoded?: DecodedChainError;
+  trace?: TranslationTrace;
 }
 
 /**
- * Error logging interface for monitoring and debugging
+ * Error code and category of a result
  */
+type ErrorCode = Pick<EnhancedErrorResult, 'code' | 'category'>;
 
-interface ErrorLogger {
-  logError(error: Error, context: ErrorContext): void;
-  logWarning(message: string, context: Partial<ErrorContext>): void;
-  logInfo(message: string, context?: Partial<ErrorContext>): void;
+/**
+ * Get the code of a decoded custom error rendered from a template, derived
+ * from the error name (`ERC20InsufficientBalance` →
+ * `CONTRACT_ERC20_INSUFFICIENT_BALANCE`)
+ */
+function getCustomErrorCode(revert: DecodedRevert | null): ErrorCode {
+  return {
+    code: revert?.name
+      ? `CONTRACT_${toConstantCase(revert.name)}`
+      : 'CONTRACT_CUSTOM_ERROR',
+    category: 'contract',
+  };
 }
 
 /**
- * Default console-based error logger
+ * Classify a result that no coded mapping produced, by detected error type
  */
-class ConsoleErrorLogger implements ErrorLogger {
-  logError(error: Error, context: ErrorContext): void {
-    console.error(`[ERROR] ${error.message}`, {
-      ...context,
-      stack: error.stack,
-      name: error.name,
-    });
-  }
-
-  logWarning(message: string, context: Partial<ErrorContext>): void {
-    console.warn(`[WARNING] ${message}`, context);
-  }
-
-  logInfo(message: string, context?: Partial<ErrorContext>): void {
-    console.info(`[INFO] ${message}`, context);
-  }
+function getErrorTypeCode(errorType: ErrorType | null): ErrorCode {
+  return errorType
+    ? { code: `${errorType}_ERROR`, category: errorType.toLowerCase() }
+    : { code: 'UNKNOWN_ERROR', category: 'unknown' };
 }
 
 /**
- * Global error logger instance
+ * Get the code and category of a decoded chain error
  */
-const errorLogger: ErrorLogger = new ConsoleErrorLogger();
+function pickErrorCode({ code, category }: DecodedChainError): ErrorCode {
+  return { code, category };
+}
 
 /**
- * Performance optimization: Translation cache
+ * Get the error type of a decoded chain error from its category
  */
-class TranslationCache {
-  private cache = new Map<string, EnhancedErrorResult>();
-  private readonly maxSize = 1000;
-  private readonly ttl = 5 * 60 * 1000; // 5 minutes
-
-  set(key: string, value: EnhancedErrorResult): void {
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
-    }
+function getDecodedErrorType(
+  decoded: DecodedChainError | null
+): ErrorType | null {
+  const errorType = decoded?.category.toUpperCase();
+  return errorType && errorType in ERROR_TYPE_KEYWORDS
+    ? (errorType as ErrorType)
+    : null;
+}
 
-    this.cache.set(key, {
-      ...value,
-      context: {
-        ...value.context,
-        timestamp: Date.now(),
-      },
-    });
+/**
+ * Format the message of a decoded chain error
+ *
+ * A `chainErrors.<CODE>` translation for the target language takes precedence
+ * over the decoded template. Both are interpolated with the decoded params.
+ */
+function formatDecodedMessage(
+  decoded: DecodedChainError | null,
+  language: string
+): string | null {
+  if (!decoded?.message) {
+    return null;
   }
 
-  get(key: string): EnhancedErrorResult | null {
-    const value = this.cache.get(key);
-    if (!value) return null;
+  const key = `chainErrors.${decoded.code}`;
+  const translated = i18nManager.translate(key, language, decoded.params);
+  return translated !== key
+    ? translated
+    : i18nManager.interpolate(decoded.message, decoded.params ?? {});
+}
 
-    // Check TTL
-    if (Date.now() - value.context.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
+/**
+ * Copy a translation result, so changes made by a caller do not reach the
+ * cache or other callers
+ *
+ * The original error is kept by reference, since it may not be cloneable.
+ */
+function copyResult(result: EnhancedErrorResult): EnhancedErrorResult {
+  const { originalError, ...rest } = result;
+  return { ...structuredClone(rest), originalError };
+}
 
-    return value;
-  }
+/**
+ * Get the ecosystem requested for a translation: the `ecosystem` option, or
+ * the ecosystem declared by the custom chain
+ */
+function getRequestedEcosystem(
+  ecosystem?: BlockchainEcosystem,
+  chain?: string
+): BlockchainEcosystem | undefined {
+  return (
+    ecosystem ?? (chain ? customChainRegistry.getEcosystem(chain) : undefined)
+  );
+}
 
-  clear(): void {
-    this.cache.clear();
+/**
+ * Select the adapter for an error, recording how it was chosen
+ */
+function selectAdapter(
+  error: TranslatableError,
+  ecosystem?: BlockchainEcosystem,
+  chain?: string
+): {
+  adapter: ChainAdapter;
+  selection: TranslationTrace['adapter']['selection'];
+} {
+  const requested = getRequestedEcosystem(ecosystem, chain);
+  const adapter = requested
+    ? adapterRegistry.getAdapter(requested)
+    : adapterRegistry.detectAdapter(error);
+
+  if (adapter) {
+    return {
+      adapter,
+      selection: ecosystem ? 'option' : requested ? 'chain' : 'detected',
+    };
   }
 
-  size(): number {
-    return this.cache.size;
-  }
+  return { adapter: adapterRegistry.getEVMAdapter(), selection: 'default' };
 }
 
 /**
- * Global translation cache instance
+ * Evaluate every mapping against an input for the explain trace
  */
-const translationCache = new TranslationCache();
+function explainCandidates(
+  input: string,
+  source: MappingCandidate['input'],
+  mappings: ErrorMapping[]
+): MappingCandidate[] {
+  return mappings.map(mapping => {
+    const score = scoreMatch(input, mapping);
+    return {
+      pattern: mapping.pattern,
+      matchMode: getMatchMode(mapping),
+      priority: mapping.priority ?? 0,
+      input: source,
+      matched: score !== null,
+      score,
+    };
+  });
+}
 
 /**
- * Extract error message from different error formats using adapter system
+ * Decode Solidity revert data for errors handled by the EVM path
+ *
+ * Built-in `Error(string)` and `Panic(uint256)` payloads are decoded first,
+ * then registered custom errors. Unknown selectors are still reported so
+ * callers can see which custom error was raised.
  */
-function extractErrorMessage(
+function decodeRevert(
   error: TranslatableError,
+  scope: CustomErrorScope,
   ecosystem?: BlockchainEcosystem
-): string {
-  // Try to detect the appropriate adapter
-  const adapter = ecosystem
-    ? adapterRegistry.getAdapter(ecosystem) || adapterRegistry.getEVMAdapter()
-    : adapterRegistry.detectAdapter(error) || adapterRegistry.getEVMAdapter();
+): DecodedRevert | null {
+  if (ecosystem && ecosystem !== 'evm') {
+    return null;
+  }
+
+  const builtInRevert = adapterRegistry.getEVMAdapter().decodeRevertData(error);
+  if (builtInRevert) {
+    return builtInRevert;
+  }
 
-  // Use adapter to extract error message
-  return adapter.extractErrorMessage(error);
+  const data = findRevertData(error);
+  if (!data) {
+    return null;
+  }
+
+  return (
+    customErrorRegistry.decode(data, scope) ?? {
+      kind: 'custom',
+      selector: data.slice(0, 10).toLowerCase(),
+      data,
+    }
+  );
 }
 
 /**
- * Check if error message matches a pattern
+ * Get the error patterns of a non-EVM adapter as mappings for matching
+ *
+ * Patterns of a requested ecosystem rank above the chain's mappings. Patterns
+ * of a detected ecosystem only fill gaps, because detecting the ecosystem
+ * from the message text is a heuristic. Custom chains declaring the ecosystem
+ * already load its patterns with their mappings.
  */
-function matchesPattern(errorMessage: string, mapping: ErrorMapping): boolean {
-  const pattern = mapping.pattern;
-  const message = errorMessage.toLowerCase();
-  const patternLower = pattern.toLowerCase();
-
-  if (mapping.isRegex) {
-    try {
-      const regex = new RegExp(pattern, 'i');
-      return regex.test(errorMessage);
-    } catch {
-      // If regex is invalid, fall back to exact match
-      return message === patternLower;
-    }
+function getEcosystemMappings(
+  adapter: ChainAdapter,
+  selection: TranslationTrace['adapter']['selection'],
+  chain: string
+): ErrorMapping[] {
+  if (
+    adapter.ecosystem === 'evm' ||
+    customChainRegistry.getEcosystem(chain) === adapter.ecosystem
+  ) {
+    return [];
   }
 
-  // For non-regex patterns, do exact matching to avoid false positives
-  return message === patternLower;
+  const mappings = loadEcosystemMappings(adapter.ecosystem);
+  return selection === 'detected'
+    ? mappings.map(mapping => ({ ...mapping, priority: 0 }))
+    : mappings;
 }
 
 /**
- * Find matching error translation
+ * Check if a mapping applies to the contract that raised an error
+ *
+ * Mappings without `contracts` apply to every error, scoped ones only to
+ * errors raised by one of their contracts.
  */
-function findBestMatch(
-  errorMessage: string,
-  mappings: ErrorMapping[]
-): ErrorMapping | null {
-  // Only try exact matches - no partial matching to avoid false positives
-  for (const mapping of mappings) {
-    if (matchesPattern(errorMessage, mapping)) {
-      return mapping;
-    }
-  }
-
-  return null;
+function appliesToContract(mapping: ErrorMapping, address?: string): boolean {
+  const contract = address?.toLowerCase();
+  return (
+    !mapping.contracts ||
+    (contract !== undefined &&
+      mapping.contracts.some(candidate => candidate.toLowerCase() === contract))
+  );
 }
 
 /**
  * Get fallback message for error
+ *
+ * Custom chain fallbacks win over the fallbacks of the requested ecosystem,
+ * which win over the default fallbacks for the error type.
  */
 function getFallbackMessage(
-  error: TranslatableError,
+  errorType: ErrorType | null,
   customFallback?: string,
-  chain?: string
+  chain?: string,
+  ecosystemFallbacks: Record<string, string | undefined> = {}
 ): string {
   if (customFallback) {
     return customFallback;
   }
 
-  // Check for custom chain fallbacks
-  if (chain && customChainRegistry.has(chain)) {
-    const customFallbacks = customChainRegistry.getCustomFallbacks(chain);
-    if (customFallbacks) {
-      const errorMessage = extractErrorMessage(error);
-      const errorType = detectErrorType(errorMessage);
-
-      if (errorType === 'NETWORK') {
-        return customFallbacks.network || DEFAULT_FALLBACK_MESSAGES.network;
-      }
-
-      if (errorType === 'WALLET') {
-        return customFallbacks.wallet || DEFAULT_FALLBACK_MESSAGES.wallet;
-      }
-
-      if (errorType === 'CONTRACT') {
-        return customFallbacks.contract || DEFAULT_FALLBACK_MESSAGES.contract;
-      }
-
-      return customFallbacks.generic || DEFAULT_FALLBACK_MESSAGES.generic;
-    }
-  }
-
-  // Use default fallbacks
-  const errorMessage = extractErrorMessage(error);
-  const errorType = detectErrorType(errorMessage);
-
-  if (errorType === 'NETWORK') {
-    return DEFAULT_FALLBACK_MESSAGES.network;
-  }
-
-  if (errorType === 'WALLET') {
-    return DEFAULT_FALLBACK_MESSAGES.wallet;
-  }
-
-  if (errorType === 'CONTRACT') {
-    return DEFAULT_FALLBACK_MESSAGES.contract;
-  }
-
-  return DEFAULT_FALLBACK_MESSAGES.generic;
+  const errorTypeKey = errorType?.toLowerCase() ?? '';
+  const customFallbacks: Record<string, string | undefined> =
+    (chain && customChainRegistry.getCustomFallbacks(chain)) || {};
+  const defaultFallbacks: Record<string, string | undefined> =
+    DEFAULT_FALLBACK_MESSAGES;
+
+  return (
+    customFallbacks[errorTypeKey] ||
+    ecosystemFallbacks[errorTypeKey] ||
+    defaultFallbacks[errorTypeKey] ||
+    customFallbacks.generic ||
+    DEFAULT_FALLBACK_MESSAGES.generic
+  );
 }
 
 /**
@@ -341,6 +405,215 @@ function getFallbackMessage(
 export function translateError(
   error: TranslatableError,
   options: TranslateErrorOptions = {}
+): EnhancedErrorResult {
+  return translateWithMappings(error, options, loadErrorMappings);
+}
+
+/**
+ * Translate error to human-readable message, loading resources on demand
+ *
+ * Behaves like `translateError`, but first imports only the translation file
+ * of the target language and the error categories enabled for the chain.
+ * Use it instead of `translateError` when bundle size matters.
+ *
+ * @param error - The error to translate (string, Error object, or custom error format)
+ * @param options - Configuration options for translation behavior
+ * @returns Promise resolving to the enhanced error result
+ *
+ * @example
+ * ```typescript
+ * const result = await translateErrorAsync(error, { language: 'es' });
+ * console.log(result.message);
+ * ```
+ */
+export async function translateErrorAsync(
+  error: TranslatableError,
+  options: TranslateErrorOptions = {}
+): Promise<EnhancedErrorResult> {
+  if (!error) {
+    throw new Error(
+      'Error parameter is required and cannot be null or undefined'
+    );
+  }
+
+  const requested = options.autoDetectLanguage
+    ? languageDetectionService.detectFromError(error)
+    : options.language || i18nManager.getCurrentLanguage();
+  // Regional codes are translated with their base language
+  const language =
+    languageBundleManager.getAvailableLanguage(requested) ?? requested;
+
+  const [mappings] = await Promise.all([
+    loadErrorMappingsAsync(options.chain || SupportedChain.ETHEREUM),
+    languageBundleManager.loadLanguage(language),
+  ]);
+
+  return translateWithMappings(
+    error,
+    options.language ? { ...options, language } : options,
+    () => mappings
+  );
+}
+
+/**
+ * Translate a batch of errors
+ *
+ * Mappings are loaded once for the chain and identical errors (same extracted
+ * message and revert data) are translated once, each input getting its own
+ * copy of the result. Results are returned in input
+ * order together with counts per error type and per matched mapping, which
+ * makes it suitable for log processing and error dashboards.
+ *
+ * @param errors - The errors to translate
+ * @param options - Translation options applied to every error
+ * @returns Results in input order and aggregate statistics
+ *
+ * @example
+ * ```typescript
+ * const { results, stats } = translateErrors(failedTxErrors, { chain: 'polygon' });
+ * console.log(stats.byErrorType); // { gas: 12, network: 3, unknown: 1 }
+ * ```
+ */
+export function translateErrors(
+  errors: TranslatableError[],
+  options: TranslateErrorOptions = {}
+): BatchTranslationResult {
+  const mappings = loadErrorMappings(options.chain || SupportedChain.ETHEREUM);
+  const unique = new Map<
+    string,
+    { result: EnhancedErrorResult; outcome: TranslationOutcome }
+  >();
+  const stats: BatchTranslationStats = {
+    total: errors.length,
+    unique: 0,
+    translated: 0,
+    fallbackUsed: 0,
+    byErrorType: {},
+    byMapping: {},
+  };
+
+  const results = errors.map(error => {
+    if (!error) {
+      throw new Error('Errors must not contain null or undefined entries');
+    }
+
+    const analysis = analyzeError(error, options);
+    const key = createCacheKey([
+      analysis.errorMessage,
+      analysis.revert?.data,
+      analysis.revert?.signature,
+      analysis.decoded,
+    ]);
+
+    let entry = unique.get(key);
+    if (!entry) {
+      let outcome: TranslationOutcome = { errorType: null, mapping: null };
+      const result = translateWithMappings(
+        error,
+        options,
+        () => mappings,
+        reported => {
+          outcome = reported;
+        },
+        analysis
+      );
+      entry = { result, outcome };
+      unique.set(key, entry);
+    }
+
+    const { result, outcome } = entry;
+    const errorType = outcome.errorType?.toLowerCase() ?? 'unknown';
+    stats.byErrorType[errorType] = (stats.byErrorType[errorType] ?? 0) + 1;
+    if (outcome.mapping) {
+      const { pattern } = outcome.mapping;
+      stats.byMapping[pattern] = (stats.byMapping[pattern] ?? 0) + 1;
+    }
+    if (result.translated) {
+      stats.translated++;
+    }
+    if (result.fallbackUsed) {
+      stats.fallbackUsed++;
+    }
+
+    const copy = copyResult(result);
+    copy.originalError = options.includeOriginalError ? error : undefined;
+    return copy;
+  });
+
+  stats.unique = unique.size;
+  return { results, stats };
+}
+
+/**
+ * How a translation was resolved, reported to batch translation
+ */
+interface TranslationOutcome {
+  errorType: ErrorType | null;
+  mapping: ErrorMapping | null;
+}
+
+/**
+ * Adapter selection and decoded forms of an error
+ */
+interface ErrorAnalysis {
+  adapter: ChainAdapter;
+  selection: TranslationTrace['adapter']['selection'];
+  errorMessage: string;
+  revertScope: CustomErrorScope;
+  revert: DecodedRevert | null;
+  decoded: DecodedChainError | null;
+}
+
+/**
+ * Select the adapter of an error, extract its message and decode it
+ */
+function analyzeError(
+  error: TranslatableError,
+  options: TranslateErrorOptions
+): ErrorAnalysis {
+  const chain = options.chain || SupportedChain.ETHEREUM;
+  const { adapter, selection } = selectAdapter(error, options.ecosystem, chain);
+
+  // Decoded revert reasons, panic codes and custom error names are matched
+  // before the raw message
+  const revertScope: CustomErrorScope = {
+    chain,
+    address: options.contractAddress ?? findContractAddress(error),
+  };
+  const revert = decodeRevert(
+    error,
+    revertScope,
+    getRequestedEcosystem(options.ecosystem, chain)
+  );
+
+  // Structured errors of other ecosystems are decoded by their adapter
+  const decoded = revert
+    ? null
+    : (adapter.decodeError?.(error, options.chain) ?? null);
+
+  return {
+    adapter,
+    selection,
+    errorMessage: adapter.extractErrorMessage(error),
+    revertScope,
+    revert,
+    decoded,
+  };
+}
+
+/**
+ * Translate an error using the given mapping loader
+ *
+ * When `onOutcome` is given the cache is not read, because cached results do
+ * not record which mapping produced them. An `analysis` computed by the
+ * caller is reused instead of analyzing the error again.
+ */
+function translateWithMappings(
+  error: TranslatableError,
+  options: TranslateErrorOptions,
+  getMappings: (chain: string) => ErrorMapping[],
+  onOutcome?: (outcome: TranslationOutcome) => void,
+  analysis?: ErrorAnalysis
 ): EnhancedErrorResult {
   // Input validation and sanitization
   if (!error) {
@@ -370,25 +643,60 @@ export function translateError(
       fallbackMessage,
       includeOriginalError = false,
       customMappings = {},
-      ecosystem,
       language,
       autoDetectLanguage,
       customLocales,
     } = options;
 
     // Performance optimization: Check cache first
-    const errorMessage = extractErrorMessage(error, ecosystem);
-    const cacheKey = `${errorMessage}_${JSON.stringify(options)}`;
-    const cachedResult = translationCache.get(cacheKey);
+    const { adapter, selection, errorMessage, revertScope, revert, decoded } =
+      analysis ?? analyzeError(error, options);
+    const revertMessage = revert?.reason ?? revert?.panicCode ?? revert?.name;
+
+    const cacheKey = createCacheKey([
+      errorMessage,
+      revert?.data,
+      revert?.signature,
+      decoded,
+      options,
+    ]);
+    const cachedResult = onOutcome
+      ? null
+      : (translationCache.get(
+          cacheKey,
+          getTimestamp()
+        ) as EnhancedErrorResult | null);
     if (cachedResult) {
       errorLogger.logInfo('Translation cache hit', {
         ...context,
         severity: ErrorSeverity.LOW,
         metadata: { ...context.metadata, cacheHit: true },
       });
-      return cachedResult;
+      const result = copyResult(cachedResult);
+      result.originalError = includeOriginalError ? error : undefined;
+      if (result.trace) {
+        result.trace.cacheHit = true;
+      }
+      return result;
     }
 
+    // Debug trace, filled in as the translation progresses
+    const trace: TranslationTrace | null = options.explain
+      ? {
+          adapter: {
+            name: adapter.name,
+            ecosystem: adapter.ecosystem,
+            selection,
+          },
+          extractedMessage: errorMessage,
+          ...(revertMessage && { revertMessage }),
+          candidates: [],
+          errorType: null,
+          source: 'fallback',
+          cacheHit: false,
+        }
+      : null;
+
     // Determine target language for i18n
     let targetLanguage = language || i18nManager.getCurrentLanguage();
 
@@ -417,10 +725,22 @@ export function translateError(
       if (customFallbacks) {
         // Check if this error should use a custom fallback instead of translation
         const errorType = detectErrorType(errorMessage);
-
-        if (errorType === 'NETWORK' && customFallbacks.network) {
+        const fallbackTrace = trace && {
+          ...trace,
+          errorType,
+          source: 'custom-fallback' as const,
+        };
+
+        const customFallback =
+          (errorType === 'NETWORK' && customFallbacks.network) ||
+          (errorType === 'WALLET' && customFallbacks.wallet) ||
+          (errorType === 'CONTRACT' && customFallbacks.contract);
+
+        if (errorType && customFallback) {
+          onOutcome?.({ errorType, mapping: null });
+          const { severity, ...retry } = classifyError(errorType, adapter);
           return {
-            message: customFallbacks.network,
+            message: customFallback,
             translated: false,
             originalError: includeOriginalError ? error : undefined,
             chain,
@@ -429,7 +749,7 @@ export function translateError(
               chain,
               ecosystem: undefined,
               language: undefined,
-              severity: ErrorSeverity.MEDIUM,
+              severity: severity as ErrorSeverity,
               operation: 'translateError',
               metadata: {
                 hasCustomMappings: false,
@@ -440,86 +760,91 @@ export function translateError(
                 fallbackUsed: true,
               },
             },
-            retryable: false,
-            fallbackUsed: true,
-          };
-        }
-
-        if (errorType === 'WALLET' && customFallbacks.wallet) {
-          return {
-            message: customFallbacks.wallet,
-            translated: false,
-            originalError: includeOriginalError ? error : undefined,
-            chain,
-            context: {
-              timestamp: Date.now(),
-              chain,
-              ecosystem: undefined,
-              language: undefined,
-              severity: ErrorSeverity.MEDIUM,
-              operation: 'translateError',
-              metadata: {
-                hasCustomMappings: false,
-                autoDetectLanguage: false,
-                includeOriginalError,
-                translationFound: false,
-                errorType: errorType.toLowerCase(),
-                fallbackUsed: true,
-              },
-            },
-            retryable: false,
-            fallbackUsed: true,
-          };
-        }
-
-        if (errorType === 'CONTRACT' && customFallbacks.contract) {
-          return {
-            message: customFallbacks.contract,
-            translated: false,
-            originalError: includeOriginalError ? error : undefined,
-            chain,
-            context: {
-              timestamp: Date.now(),
-              chain,
-              ecosystem: undefined,
-              language: undefined,
-              severity: ErrorSeverity.MEDIUM,
-              operation: 'translateError',
-              metadata: {
-                hasCustomMappings: false,
-                autoDetectLanguage: false,
-                includeOriginalError,
-                translationFound: false,
-                errorType: errorType.toLowerCase(),
-                fallbackUsed: true,
-              },
-            },
-            retryable: false,
+            ...retry,
             fallbackUsed: true,
+            ...getErrorTypeCode(errorType),
+            ...(revert && { revert }),
+            ...(decoded && { decoded }),
+            ...(fallbackTrace && { trace: fallbackTrace }),
           };
         }
       }
     }
 
-    // Load error mappings for the specified chain
-    let mappings = loadErrorMappings(chain);
+    // Load error mappings for the specified chain and the adapter's ecosystem
+    let mappings = [
+      ...getMappings(chain),
+      ...getEcosystemMappings(adapter, selection, chain),
+    ];
 
     // Add custom mappings if provided
     if (Object.keys(customMappings).length > 0) {
       mappings = addCustomMappings(mappings, customMappings);
     }
 
-    // Detect error type for i18n translation
-    const errorType = detectErrorType(errorMessage);
+    // Mappings scoped to contracts only apply to errors those contracts raised
+    mappings = mappings.filter(mapping =>
+      appliesToContract(mapping, revertScope.address)
+    );
 
-    // Find the best matching translation
-    const match = findBestMatch(errorMessage, mappings);
+    // Detect error type for i18n translation
+    const errorType =
+      getDecodedErrorType(decoded) ??
+      detectErrorType(errorMessage) ??
+      (revert ? 'CONTRACT' : null);
+
+    // Registered custom error templates take precedence over pattern mappings
+    const customErrorMessage = revert
+      ? customErrorRegistry.formatMessage(revert, revertScope, targetLanguage)
+      : null;
+
+    // Decoded chain error templates do too
+    const decodedMessage = formatDecodedMessage(decoded, targetLanguage);
+    const templateMessage = customErrorMessage ?? decodedMessage;
+
+    // Find the best matching translation. Revert-only mappings are matched
+    // against the decoded revert reason alone
+    const messageMappings = mappings.filter(mapping => !mapping.revertOnly);
+    const match =
+      templateMessage === null
+        ? (revertMessage && findBestMatch(revertMessage, mappings)) ||
+          findBestMatch(errorMessage, messageMappings)
+        : null;
+
+    if (trace) {
+      trace.errorType = errorType;
+      if (customErrorMessage !== null) {
+        const customErrorKey = `customErrors.${revert?.name}`;
+        trace.source = 'custom-error';
+        trace.i18nKey = customErrorKey;
+        trace.i18nKeyFound =
+          i18nManager.translate(customErrorKey, targetLanguage) !==
+          customErrorKey;
+      } else if (decodedMessage !== null) {
+        const decodedKey = `chainErrors.${decoded?.code}`;
+        trace.source = 'decoded';
+        trace.i18nKey = decodedKey;
+        trace.i18nKeyFound =
+          i18nManager.translate(decodedKey, targetLanguage) !== decodedKey;
+      } else {
+        trace.candidates = [
+          ...(revertMessage
+            ? explainCandidates(revertMessage, 'revert', mappings)
+            : []),
+          ...explainCandidates(errorMessage, 'message', messageMappings),
+        ];
+      }
+      if (match) {
+        trace.source = 'mapping';
+        trace.matchedMapping = match;
+      }
+    }
 
-    if (match) {
+    if (templateMessage !== null || match) {
       // Use the matched message directly, or translate it if i18n is enabled
-      let finalMessage = match.message;
+      let finalMessage = templateMessage ?? match?.message ?? '';
 
-      if (targetLanguage && targetLanguage !== 'en') {
+      if (match && targetLanguage && targetLanguage !== 'en') {
         // Try to find a translation for this specific message
         const translationKey = `errors.${errorType?.toLowerCase() || 'unknown'}`;
         const translatedMessage = i18nManager.translate(
@@ -531,6 +856,11 @@ export function translateError(
         if (translatedMessage !== translationKey) {
           finalMessage = translatedMessage;
         }
+
+        if (trace) {
+          trace.i18nKey = translationKey;
+          trace.i18nKeyFound = translatedMessage !== translationKey;
+        }
       }
 
       // Log successful translation
@@ -545,6 +875,13 @@ export function translateError(
         },
       });
 
+      onOutcome?.({ errorType, mapping: match || null });
+      const { severity, ...retry } = classifyError(
+        errorType,
+        adapter,
+        match ?? decoded
+      );
+
       const result: EnhancedErrorResult = {
         message: finalMessage,
         translated: true,
@@ -552,14 +889,33 @@ export function translateError(
         chain,
         context: {
           ...context,
-          severity: ErrorSeverity.LOW,
+          severity: severity as ErrorSeverity,
         },
-        retryable: false,
+        ...retry,
         fallbackUsed: false,
+        ...(match
+          ? {
+              ...getErrorTypeCode(errorType),
+              ...(decoded && pickErrorCode(decoded)),
+              ...(match.code && { code: match.code }),
+              ...(match.category && { category: match.category }),
+            }
+          : decoded
+            ? pickErrorCode(decoded)
+            : getCustomErrorCode(revert)),
+        ...(match?.actions?.length && {
+          actions: resolveErrorActions(match.actions, targetLanguage, chain),
+        }),
+        ...(revert && { revert }),
+        ...(decoded && { decoded }),
+        ...(trace && { trace }),
       };
 
-      // Cache the successful result
-      translationCache.set(cacheKey, result);
+      // Cache the successful result (custom error templates can be
+      // re-registered at runtime, so those are always rendered fresh)
+      if (customErrorMessage === null) {
+        translationCache.set(cacheKey, copyResult(result), getTimestamp());
+      }
 
       return result;
     }
@@ -577,7 +933,20 @@ export function translateError(
     // If i18n fallback is the same as the key, use the original fallback logic
     const fallback = translationFound
       ? i18nFallback
-      : getFallbackMessage(error, fallbackMessage, chain);
+      : getFallbackMessage(
+          errorType,
+          fallbackMessage,
+          chain,
+          selection === 'option' || selection === 'chain'
+            ? adapter.getFallbackMessages()
+            : {}
+        );
+
+    if (trace) {
+      trace.i18nKey = `errors.${errorTypeKey}`;
+      trace.i18nKeyFound = translationFound;
+      trace.source = translationFound ? 'i18n' : 'fallback';
+    }
 
     // Log the result
     if (translationFound) {
@@ -604,6 +973,9 @@ export function translateError(
       });
     }
 
+    onOutcome?.({ errorType, mapping: null });
+    const { severity, ...retry } = classifyError(errorType, adapter, decoded);
+
     return {
       message: fallback,
       translated: translationFound,
@@ -611,10 +983,14 @@ export function translateError(
       chain,
       context: {
         ...context,
-        severity: translationFound ? ErrorSeverity.LOW : ErrorSeverity.MEDIUM,
+        severity: severity as ErrorSeverity,
       },
-      retryable: false,
+      ...retry,
       fallbackUsed: !translationFound,
+      ...(decoded ? pickErrorCode(decoded) : getErrorTypeCode(errorType)),
+      ...(revert && { revert }),
+      ...(decoded && { decoded }),
+      ...(trace && { trace }),
     };
   } catch (systemError) {
     // Handle critical system errors
@@ -635,6 +1011,7 @@ export function translateError(
       context: criticalContext,
       retryable: true,
       fallbackUsed: true,
+      ...getErrorTypeCode(null),
     };
   }
 }
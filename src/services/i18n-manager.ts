@@ -19,25 +19,14 @@ import {
   TranslationParams,
 } from '../types/i18n';
 import { getLanguageInfo } from '../config/default-languages';
-
-/**
- * Default fallback messages (English)
- */
-const DEFAULT_FALLBACK_MESSAGES = {
-  network:
-    'Network error occurred. Please check your connection and try again.',
-  wallet:
-    'Wallet error occurred. Please check your wallet connection and try again.',
-  insufficient_funds: 'Insufficient balance for transaction',
-  transaction_failed: 'Transaction failed. Please try again.',
-  unknown_error: 'An unknown error occurred',
-} as const;
+import * as enTranslations from '../translations/en.json';
 
 /**
  * Core i18n manager implementation
  */
 class I18nManager implements I18nManagerInterface {
-  private englishTranslations: TranslationObject;
+  // English is the fallback of every language, so it is always bundled
+  private englishTranslations: TranslationObject = enTranslations;
   private developerLocales: Map<LanguageCode, TranslationObject> = new Map();
   private globalOverrides: Map<LanguageCode, PartialTranslationOverride> =
     new Map();
@@ -46,30 +35,6 @@ class I18nManager implements I18nManagerInterface {
   ]);
   private currentLanguage: LanguageCode = createLanguageCode('en');
 
-  constructor() {
-    this.englishTranslations = this.loadEnglishTranslations();
-  }
-
-  /**
-   * Load English translations from the translations file
-   */
-  private loadEnglishTranslations(): TranslationObject {
-    try {
-      // Load English translations directly from the JSON file
-      // eslint-disable-next-line no-undef
-      const enTranslations = require('../translations/en.json');
-      return enTranslations;
-    } catch (error) {
-      console.warn(
-        'Failed to load English translations, using fallbacks:',
-        error
-      );
-      return {
-        errors: DEFAULT_FALLBACK_MESSAGES,
-      };
-    }
-  }
-
   /**
    * Register developer-provided locale with partial override support
    */
@@ -251,11 +216,11 @@ class I18nManager implements I18nManagerInterface {
   /**
    * Interpolate parameters into translation template
    */
-  private interpolate(template: string, params?: TranslationParams): string {
+  interpolate(template: string, params?: TranslationParams): string {
     if (!params) return template;
 
     return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return String(params[key] || match);
+      return String(params[key] ?? match);
     });
   }
 
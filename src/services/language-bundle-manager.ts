@@ -22,9 +22,9 @@ import {
 import {
   DEFAULT_LANGUAGES,
   getAvailableLanguageCodes,
-  getLanguageInfo,
 } from '../config/default-languages';
 import { i18nManager } from './i18n-manager';
+import { importTranslations } from './translation-importers';
 
 /**
  * Language bundle manager implementation
@@ -36,6 +36,7 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
   ]); // English always loaded
   private languageMetadata: Map<LanguageCode, LanguageInfo> = new Map();
   private translationCache: Map<LanguageCode, TranslationObject> = new Map();
+  private pendingLoads: Map<LanguageCode, Promise<void>> = new Map();
 
   constructor() {
     this.availableLanguages = new Set(getAvailableLanguageCodes());
@@ -54,6 +55,9 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
 
   /**
    * Configure language selection and load only target languages
+   *
+   * Languages are loaded in the background; await `loadLanguage` to know
+   * when a language is ready.
    */
   configureLanguageSelection(
     selection: LanguageSelection
@@ -81,7 +85,7 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
         if (
           !this.loadedLanguages.has(createLanguageCode(suggestion.available))
         ) {
-          this.loadLanguage(suggestion.available);
+          void this.loadLanguage(suggestion.available);
           result.loaded.push(suggestion.available);
         }
 
@@ -99,7 +103,7 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
       includeEnglishFallback &&
       !this.loadedLanguages.has(createLanguageCode('en'))
     ) {
-      this.loadLanguage('en');
+      void this.loadLanguage('en');
       result.loaded.push('en');
     }
 
@@ -220,20 +224,60 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
 
   /**
    * Load a specific language (lazy loading)
+   *
+   * The translation file is imported on first use and registered with the
+   * i18n manager. Concurrent calls share the same import. The main entry
+   * point registers every bundled language on import, the lazy entry point
+   * leaves them to this method. Regional codes load their base language
+   * (`es-ES` loads `es`) and unknown languages are skipped.
    */
-  loadLanguage(language: string): void {
+  loadLanguage(requested: string): Promise<void> {
+    const language = this.getAvailableLanguage(requested);
+    if (!language) {
+      return Promise.resolve();
+    }
+
     const langCode = createLanguageCode(language);
     if (this.loadedLanguages.has(langCode)) {
-      return; // Already loaded
+      return Promise.resolve(); // Already loaded
+    }
+
+    const pending = this.pendingLoads.get(langCode);
+    if (pending) {
+      return pending;
     }
 
-    // Load translation data
-    const translations = this.loadTranslationData(language);
-    this.translationCache.set(langCode, translations);
-    this.loadedLanguages.add(langCode);
+    const load = this.loadTranslationData(language)
+      .then(translations => {
+        this.translationCache.set(langCode, translations);
+        this.loadedLanguages.add(langCode);
+
+        // Register with i18n manager, keeping locales registered by the app
+        if (!i18nManager.isLanguageSupported(language)) {
+          i18nManager.registerLocale(language, translations);
+        }
+      })
+      .finally(() => {
+        this.pendingLoads.delete(langCode);
+      });
+
+    this.pendingLoads.set(langCode, load);
+    return load;
+  }
 
-    // Register with i18n manager
-    i18nManager.registerLocale(language, translations);
+  /**
+   * Get the bundled language for a language code: the code itself, or the
+   * base language of a regional code (`es-ES` → `es`)
+   *
+   * @returns The language, or null if no translations are bundled for it
+   */
+  getAvailableLanguage(language: string): string | null {
+    const baseLanguage = language.split('-')[0] ?? language;
+    return (
+      [language, baseLanguage].find(candidate =>
+        this.availableLanguages.has(createLanguageCode(candidate))
+      ) ?? null
+    );
   }
 
   /**
@@ -255,18 +299,10 @@ class LanguageBundleManager implements LanguageBundleManagerInterface {
   /**
    * Load translation data for a language
    */
-  private loadTranslationData(language: string): TranslationObject {
-    const info = getLanguageInfo(language);
-    if (!info) {
-      console.warn(`Language '${language}' not found in configuration`);
-      return { errors: {} };
-    }
-
-    // Load from the translation files via the translation loader
-    // The actual translation data is loaded by the translation-loader service
-    return {
-      errors: {},
-    };
+  private async loadTranslationData(
+    language: string
+  ): Promise<TranslationObject> {
+    return (await importTranslations(language)) ?? { errors: {} };
   }
 
   /**
@@ -0,0 +1,236 @@
+/**
+ * Translation cache service
+ *
+ * This module caches translation results so repeated errors are translated
+ * once. Size, TTL and eviction strategy (LRU or FIFO) are configurable, the
+ * cache can be disabled, and the backing store can be replaced, e.g. with a
+ * store shared between worker processes. Hit, miss and eviction counters are
+ * exposed for monitoring.
+ */
+
+import {
+  CachedTranslation,
+  EnhancedErrorResult,
+  TranslationCacheOptions,
+  TranslationCacheStats,
+  TranslationCacheStore,
+} from '../types';
+
+const DEFAULT_MAX_SIZE = 1000;
+const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Default in-memory store backed by an insertion-ordered Map
+ */
+export class MemoryTranslationCacheStore implements TranslationCacheStore {
+  private entries = new Map<string, CachedTranslation>();
+
+  get(key: string): CachedTranslation | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CachedTranslation): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.entries.keys();
+  }
+}
+
+/**
+ * Translation cache with TTL, bounded size and usage statistics
+ */
+export class TranslationCache {
+  private store: TranslationCacheStore = new MemoryTranslationCacheStore();
+  private enabled = true;
+  private maxSize = DEFAULT_MAX_SIZE;
+  private ttl = DEFAULT_TTL;
+  private strategy: 'lru' | 'fifo' = 'fifo';
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  /**
+   * Update the cache configuration
+   *
+   * Options that are omitted keep their current value. Replacing the store
+   * discards the entries of the previous store.
+   *
+   * @param options - Cache configuration
+   * @throws Error if maxSize or ttl is invalid
+   */
+  configure(options: TranslationCacheOptions): void {
+    if (
+      options.maxSize !== undefined &&
+      (!Number.isInteger(options.maxSize) || options.maxSize < 1)
+    ) {
+      throw new Error('maxSize must be a positive integer');
+    }
+
+    if (
+      options.ttl !== undefined &&
+      (typeof options.ttl !== 'number' ||
+        Number.isNaN(options.ttl) ||
+        options.ttl < 0)
+    ) {
+      throw new Error('ttl must be a non-negative number');
+    }
+
+    this.enabled = options.enabled ?? this.enabled;
+    this.maxSize = options.maxSize ?? this.maxSize;
+    this.ttl = options.ttl ?? this.ttl;
+    this.strategy = options.strategy ?? this.strategy;
+
+    if (options.store) {
+      this.store = options.store;
+    }
+
+    if (!this.enabled) {
+      this.store.clear();
+    }
+  }
+
+  get(key: string, now: number = Date.now()): EnhancedErrorResult | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const entry = this.store.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    // Check TTL
+    if (now >= entry.expiresAt) {
+      this.store.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    // Move the entry to the end of the eviction order
+    if (this.strategy === 'lru') {
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: EnhancedErrorResult, now: number = Date.now()): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    if (this.store.get(key)) {
+      this.store.delete(key);
+    }
+
+    while (this.store.size() >= this.maxSize) {
+      const oldestKey = this.store.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.store.delete(oldestKey);
+      this.evictions++;
+    }
+
+    this.store.set(key, { value, expiresAt: now + this.ttl });
+  }
+
+  /**
+   * Remove all entries and reset the statistics
+   */
+  clear(): void {
+    this.store.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  size(): number {
+    return this.store.size();
+  }
+
+  getStats(): TranslationCacheStats {
+    return {
+      enabled: this.enabled,
+      size: this.store.size(),
+      maxSize: this.maxSize,
+      ttl: this.ttl,
+      strategy: this.strategy,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+}
+
+/**
+ * Build a cache key that does not depend on the order of option keys
+ */
+export function createCacheKey(parts: unknown[]): string {
+  return JSON.stringify(parts, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b)
+          )
+        )
+      : value
+  );
+}
+
+/**
+ * Global translation cache instance
+ */
+export const translationCache = new TranslationCache();
+
+/**
+ * Configure the translation cache
+ *
+ * @param options - Size, TTL, eviction strategy, store, or `enabled: false`
+ *
+ * @example
+ * ```typescript
+ * configureTranslationCache({ maxSize: 5000, ttl: 60_000, strategy: 'lru' });
+ *
+ * // Disable caching entirely
+ * configureTranslationCache({ enabled: false });
+ * ```
+ */
+export function configureTranslationCache(
+  options: TranslationCacheOptions
+): void {
+  translationCache.configure(options);
+}
+
+/**
+ * Remove all cached translations and reset the cache statistics
+ */
+export function clearTranslationCache(): void {
+  translationCache.clear();
+}
+
+/**
+ * Get translation cache statistics
+ *
+ * @returns Current size, configuration and hit/miss/eviction counters
+ */
+export function getTranslationCacheStats(): TranslationCacheStats {
+  return translationCache.getStats();
+}
@@ -0,0 +1,55 @@
+/**
+ * Lazy translation importers
+ *
+ * This module maps language codes to dynamic imports of their translation
+ * files. Unlike the eager translation loader, only the requested language is
+ * loaded.
+ */
+
+import { TranslationObject } from '../types/i18n';
+
+/**
+ * Dynamic importers for each bundled translation file
+ */
+const TRANSLATION_IMPORTERS: Record<string, () => Promise<TranslationObject>> =
+  {
+    en: () => import('../translations/en.json'),
+    es: () => import('../translations/es.json'),
+    pt: () => import('../translations/pt.json'),
+    zh: () => import('../translations/zh.json'),
+    ja: () => import('../translations/ja.json'),
+    ko: () => import('../translations/ko.json'),
+    de: () => import('../translations/de.json'),
+    ru: () => import('../translations/ru.json'),
+    hi: () => import('../translations/hi.json'),
+    ar: () => import('../translations/ar.json'),
+    tr: () => import('../translations/tr.json'),
+    vi: () => import('../translations/vi.json'),
+    th: () => import('../translations/th.json'),
+    id: () => import('../translations/id.json'),
+    pl: () => import('../translations/pl.json'),
+    uk: () => import('../translations/uk.json'),
+    he: () => import('../translations/he.json'),
+    fr: () => import('../translations/fr.json'),
+    it: () => import('../translations/it.json'),
+    nl: () => import('../translations/nl.json'),
+  };
+
+/**
+ * Import the bundled translations for a language
+ *
+ * @param language - Language code (e.g. `es`)
+ * @returns The translations, or null if no translation file is bundled
+ */
+export async function importTranslations(
+  language: string
+): Promise<TranslationObject | null> {
+  const importer = TRANSLATION_IMPORTERS[language];
+  if (!importer) {
+    return null;
+  }
+
+  // ES module interop exposes the JSON object as the default export
+  const imported = await importer();
+  return (imported as { default?: TranslationObject }).default ?? imported;
+}
@@ -0,0 +1,169 @@
+/**
+ * Web3 call retry service
+ *
+ * This module runs async RPC or transaction functions, translates thrown
+ * errors with `translateError` and retries the ones classified as retryable
+ * with exponential backoff and jitter. When the call cannot be retried (or
+ * retries are exhausted) a `TranslatedWeb3Error` subclass carrying the
+ * translation result is thrown.
+ */
+
+import {
+  EnhancedErrorResult,
+  RetryWeb3CallOptions,
+  TranslatableError,
+} from '../types';
+import { createTranslatedError } from '../translated-error';
+import { translateError } from './error-translation';
+
+// Global type declarations for timers
+declare const setTimeout: (callback: () => void, ms: number) => unknown;
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30 * 1000;
+const DEFAULT_JITTER = 0.5;
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Compute the delay before a retry
+ *
+ * Delays double with each attempt starting from the backoff suggested by the
+ * result (or the base delay), are capped at the maximum delay, and a random
+ * share given by `jitter` is removed so concurrent callers spread out.
+ * `resync` errors without a suggested backoff are retried right away.
+ */
+function getRetryDelay(
+  result: EnhancedErrorResult,
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  jitter: number
+): number {
+  if (result.retryStrategy === 'immediate') {
+    return 0;
+  }
+
+  const initialDelay =
+    result.backoffMs ?? (result.retryStrategy === 'resync' ? 0 : baseDelayMs);
+  const delay = Math.min(maxDelayMs, initialDelay * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * Run an async Web3 call, retrying retryable errors
+ *
+ * @param fn - The call to run; receives the attempt number, starting at 1
+ * @param options - Retry settings and options for `translateError`
+ * @returns The value returned by the call
+ * @throws TranslatedWeb3Error when the call fails and cannot be retried
+ * @throws Error if the retry settings are invalid
+ *
+ * @example
+ * ```typescript
+ * const receipt = await retryWeb3Call(
+ *   async () => (await wallet.sendTransaction(tx)).wait(),
+ *   {
+ *     chain: 'polygon',
+ *     maxRetries: 5,
+ *     onRetry: async result => {
+ *       if (result.retryStrategy === 'resync') {
+ *         tx.nonce = await wallet.getNonce('pending');
+ *       }
+ *     },
+ *   }
+ * );
+ * ```
+ */
+export async function retryWeb3Call<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryWeb3CallOptions = {}
+): Promise<T> {
+  const {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY,
+    maxDelayMs = DEFAULT_MAX_DELAY,
+    jitter = DEFAULT_JITTER,
+    shouldRetry,
+    onRetry,
+    ...translateOptions
+  } = options;
+
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error('maxRetries must be a non-negative integer');
+  }
+
+  if (!(jitter >= 0 && jitter <= 1)) {
+    throw new Error('jitter must be a number between 0 and 1');
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const result = translateError(
+        (error || 'Unknown error occurred') as TranslatableError,
+        translateOptions
+      );
+
+      const retry =
+        attempt <= maxRetries &&
+        (shouldRetry ? shouldRetry(result, attempt) : result.retryable);
+      if (!retry) {
+        throw createTranslatedError(result, {
+          cause: error,
+          attempts: attempt,
+        });
+      }
+
+      const delayMs = getRetryDelay(
+        result,
+        attempt,
+        baseDelayMs,
+        maxDelayMs,
+        jitter
+      );
+      await onRetry?.(result, attempt, delayMs);
+      if (delayMs > 0) {
+        await sleep(delayMs);
+      }
+    }
+  }
+}
+
+/**
+ * Wrap an async Web3 function so its calls are retried and translated
+ *
+ * @param fn - The function to wrap
+ * @param options - Retry settings and options for `translateError`
+ * @returns A function with the same parameters that retries retryable errors
+ * and throws `TranslatedWeb3Error` otherwise
+ *
+ * @example
+ * ```typescript
+ * const getBalance = withErrorTranslation(
+ *   (address: string) => provider.getBalance(address),
+ *   { chain: 'ethereum' }
+ * );
+ *
+ * try {
+ *   await getBalance(address);
+ * } catch (error) {
+ *   if (error instanceof TranslatedWeb3Error) {
+ *     showToast(error.message);
+ *   }
+ * }
+ * ```
+ */
+export function withErrorTranslation<Args extends unknown[], T>(
+  fn: (...args: Args) => Promise<T>,
+  options: RetryWeb3CallOptions = {}
+): (...args: Args) => Promise<T> {
+  return (...args: Args) => retryWeb3Call(() => fn(...args), options);
+}
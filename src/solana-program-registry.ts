@@ -0,0 +1,367 @@
+/**
+ * Solana program error registry
+ *
+ * This module maps Solana program ids to the error enums of their programs,
+ * so `custom program error: 0x..` codes can be reported by name. Built-in
+ * tables cover the SPL Token (including Token-2022) and Associated Token
+ * Account programs and the errors raised by the Anchor framework itself
+ * (codes 100-5000). Programs registered at runtime, directly or from an
+ * Anchor IDL, take precedence over the built-in tables. Errors logged by
+ * Anchor programs (`AnchorError occurred. Error Code: ...`) are used for
+ * codes that no table defines.
+ */
+
+import {
+  AnchorIdl,
+  AnchorIdlOptions,
+  DecodedChainError,
+  SolanaProgramError,
+  SolanaProgramErrorConfig,
+} from './types';
+import {
+  SOLANA_ERROR_TABLE,
+  decodeSolanaVariant,
+  getSolanaErrorParams,
+  parseSolanaError,
+} from './utils/solana-error-decoder';
+import { toConstantCase } from './utils/decoded-error';
+
+/**
+ * First error code of user-defined Anchor program errors
+ */
+const ANCHOR_USER_ERROR_OFFSET = 6000;
+
+/**
+ * Code reported for custom program errors that are not in any table
+ */
+const UNKNOWN_PROGRAM_ERROR_CODE = 'SOLANA_PROGRAM_ERROR';
+
+/**
+ * Program error resolved from a program id and error code
+ */
+export interface ResolvedSolanaProgramError {
+  /** The program error */
+  error: SolanaProgramError;
+  /** Human-readable name of the program */
+  program?: string;
+  /** Prefix of the error code */
+  codePrefix: string;
+}
+
+/**
+ * In-memory registry for Solana program errors
+ */
+class SolanaProgramRegistry {
+  private programs = new Map<string, SolanaProgramErrorConfig>();
+  private builtIns: Map<string, SolanaProgramErrorConfig> | null = null;
+
+  /**
+   * Register the errors of a program
+   *
+   * Registering a program id again replaces its errors.
+   *
+   * @param config - The program id and its errors
+   * @throws Error if the configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * registry.register({
+   *   programId: 'Vau1t...',
+   *   name: 'Vault',
+   *   codePrefix: 'VAULT',
+   *   errors: [{ code: 6000, name: 'VaultLocked', message: 'The vault is locked.' }],
+   * });
+   * ```
+   */
+  register(config: SolanaProgramErrorConfig): void {
+    if (!config.programId || typeof config.programId !== 'string') {
+      throw new Error('programId must be a non-empty string');
+    }
+
+    if (!Array.isArray(config.errors)) {
+      throw new Error('errors must be an array');
+    }
+
+    config.errors.forEach(error => {
+      if (!Number.isInteger(error.code) || error.code < 0) {
+        throw new Error('Program error codes must be non-negative integers');
+      }
+      if (!error.name || typeof error.name !== 'string') {
+        throw new Error('Program error names must be non-empty strings');
+      }
+    });
+
+    this.programs.set(config.programId, config);
+  }
+
+  /**
+   * Register the errors of an Anchor program from its IDL
+   *
+   * @param idl - The IDL generated by `anchor build`
+   * @param options - Program id, code prefix and message templates
+   * @returns The registered program configuration
+   * @throws Error if the IDL has no program id and none is given
+   *
+   * @example
+   * ```typescript
+   * registry.registerIdl(vaultIdl, { codePrefix: 'VAULT' });
+   * ```
+   */
+  registerIdl(
+    idl: AnchorIdl,
+    options: AnchorIdlOptions = {}
+  ): SolanaProgramErrorConfig {
+    const programId = options.programId ?? idl.address ?? idl.metadata?.address;
+    if (!programId) {
+      throw new Error('programId is required when the IDL has no address');
+    }
+
+    const name = idl.metadata?.name ?? idl.name;
+    const config: SolanaProgramErrorConfig = {
+      programId,
+      ...(name && { name }),
+      ...(options.codePrefix && { codePrefix: options.codePrefix }),
+      errors: (idl.errors ?? []).map(error => {
+        const message = options.messages?.[error.name] ?? error.msg;
+        return {
+          code: error.code,
+          name: error.name,
+          ...(message && { message }),
+        };
+      }),
+    };
+
+    this.register(config);
+    return config;
+  }
+
+  /**
+   * Resolve a program error code
+   *
+   * Registered programs are consulted first, then the built-in program
+   * tables. Codes below 6000 raised by other programs are resolved against
+   * the Anchor framework errors. Without a program id, the code is resolved
+   * only if exactly one registered program defines it.
+   *
+   * @param code - The custom program error code
+   * @param programId - The program that raised the error, when known
+   * @returns The resolved error or undefined
+   */
+  resolve(
+    code: number,
+    programId?: string
+  ): ResolvedSolanaProgramError | undefined {
+    const program = programId
+      ? (this.programs.get(programId) ?? this.getBuiltIns().get(programId))
+      : this.findOnlyProgramWithCode(code);
+
+    const error = program?.errors.find(candidate => candidate.code === code);
+    if (program && error) {
+      return {
+        error,
+        ...(program.name && { program: program.name }),
+        codePrefix: program.codePrefix ?? 'SOLANA_PROGRAM',
+      };
+    }
+
+    const { anchorErrors } = SOLANA_ERROR_TABLE;
+    const anchorError =
+      programId &&
+      !this.getBuiltIns().has(programId) &&
+      code < ANCHOR_USER_ERROR_OFFSET
+        ? anchorErrors.errors.find(candidate => candidate.code === code)
+        : undefined;
+    if (anchorError) {
+      return {
+        error: anchorError,
+        ...(program?.name && { program: program.name }),
+        codePrefix: anchorErrors.codePrefix ?? 'SOLANA_ANCHOR',
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Decode a Solana error
+   *
+   * Builtin transaction and instruction errors are decoded from the built-in
+   * tables. Custom program errors are resolved with `resolve`, then from the
+   * error logged by an Anchor program; unknown codes are still reported,
+   * without a message, so they are translated through the error mappings.
+   *
+   * @param error - The error to decode
+   * @returns The decoded error or null if no Solana error was recognised
+   */
+  decode(error: unknown): DecodedChainError | null {
+    const details = parseSolanaError(error);
+    if (!details) {
+      return null;
+    }
+
+    if (details.customCode === undefined) {
+      return decodeSolanaVariant(details);
+    }
+
+    const logged = details.programError;
+    const resolved =
+      this.resolve(details.customCode, details.programId) ??
+      (logged && this.fromLoggedError(logged, details.programId));
+    const params = {
+      ...getSolanaErrorParams(details),
+      ...(resolved?.program && { program: resolved.program }),
+    };
+
+    if (!resolved) {
+      return {
+        ecosystem: 'solana',
+        name: 'Custom',
+        code: UNKNOWN_PROGRAM_ERROR_CODE,
+        category: 'contract',
+        retryable: false,
+        params,
+      };
+    }
+
+    const { error: programError, codePrefix } = resolved;
+    const message = programError.message ?? logged?.message;
+    return {
+      ecosystem: 'solana',
+      name: programError.name,
+      code: `${codePrefix}_${toConstantCase(programError.name)}`,
+      category: 'contract',
+      retryable: false,
+      ...(message && { message }),
+      params,
+    };
+  }
+
+  /**
+   * Find the registered program defining a code, if exactly one does
+   */
+  private findOnlyProgramWithCode(
+    code: number
+  ): SolanaProgramErrorConfig | undefined {
+    const programs = this.getAll().filter(program =>
+      program.errors.some(error => error.code === code)
+    );
+    return programs.length === 1 ? programs[0] : undefined;
+  }
+
+  /**
+   * Resolve an error logged by an Anchor program that no table defines
+   */
+  private fromLoggedError(
+    error: SolanaProgramError,
+    programId?: string
+  ): ResolvedSolanaProgramError {
+    const program = programId ? this.programs.get(programId) : undefined;
+    return {
+      error,
+      ...(program?.name && { program: program.name }),
+      codePrefix: program?.codePrefix ?? 'SOLANA_PROGRAM',
+    };
+  }
+
+  /**
+   * Get all registered programs (excluding built-in programs)
+   */
+  getAll(): SolanaProgramErrorConfig[] {
+    return Array.from(this.programs.values());
+  }
+
+  /**
+   * Get the built-in programs keyed by program id, building them on first use
+   */
+  getBuiltIns(): Map<string, SolanaProgramErrorConfig> {
+    if (!this.builtIns) {
+      this.builtIns = new Map(
+        SOLANA_ERROR_TABLE.programs.flatMap(({ programIds, ...program }) =>
+          programIds.map(
+            programId => [programId, { ...program, programId }] as const
+          )
+        )
+      );
+    }
+    return this.builtIns;
+  }
+
+  /**
+   * Clear all registered programs (built-in programs are kept)
+   */
+  clear(): void {
+    this.programs.clear();
+  }
+}
+
+// Global registry instance
+export const solanaProgramRegistry = new SolanaProgramRegistry();
+
+/**
+ * Register the error codes of a Solana program
+ *
+ * @param config - The program id, name, code prefix and errors
+ *
+ * @example
+ * ```typescript
+ * import { registerSolanaProgramErrors } from 'web3-error-helper';
+ *
+ * registerSolanaProgramErrors({
+ *   programId: 'Vau1t...',
+ *   name: 'Vault',
+ *   codePrefix: 'VAULT',
+ *   errors: [{ code: 6000, name: 'VaultLocked', message: 'The vault is locked.' }],
+ * });
+ * ```
+ */
+export function registerSolanaProgramErrors(
+  config: SolanaProgramErrorConfig
+): void {
+  solanaProgramRegistry.register(config);
+}
+
+/**
+ * Register the errors of an Anchor program from its IDL
+ *
+ * @param idl - The IDL generated by `anchor build`
+ * @param options - Program id, code prefix and message templates
+ * @returns The registered program configuration
+ *
+ * @example
+ * ```typescript
+ * import { registerAnchorIdl } from 'web3-error-helper';
+ * import vaultIdl from './target/idl/vault.json';
+ *
+ * registerAnchorIdl(vaultIdl, {
+ *   codePrefix: 'VAULT',
+ *   messages: { VaultLocked: 'The vault is locked until {{unlockDate}}.' },
+ * });
+ * ```
+ */
+export function registerAnchorIdl(
+  idl: AnchorIdl,
+  options?: AnchorIdlOptions
+): SolanaProgramErrorConfig {
+  return solanaProgramRegistry.registerIdl(idl, options);
+}
+
+/**
+ * Get the program error registered or built in for a code
+ *
+ * @param code - The custom program error code
+ * @param programId - The program that raised the error
+ * @returns The resolved error or undefined
+ */
+export function getSolanaProgramError(
+  code: number,
+  programId?: string
+): ResolvedSolanaProgramError | undefined {
+  return solanaProgramRegistry.resolve(code, programId);
+}
+
+/**
+ * Clear all registered Solana programs (built-in programs are kept)
+ */
+export function clearSolanaProgramErrors(): void {
+  solanaProgramRegistry.clear();
+}
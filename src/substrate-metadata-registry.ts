@@ -0,0 +1,336 @@
+/**
+ * Substrate runtime metadata registry
+ *
+ * This module maps the module indices of `{ Module: { index, error } }`
+ * dispatch errors to pallet errors, so they can be reported as
+ * `pallet.ErrorName`. Module indices differ per runtime, so error tables
+ * from runtime metadata are registered per chain. Without registered
+ * metadata, the module layout of the Polkadot and Kusama relay chains is
+ * assumed for the built-in System, Balances, Staking and XCM pallet tables,
+ * which also provide messages for these pallets (and Assets) on any chain.
+ */
+
+import {
+  DecodedChainError,
+  SubstrateErrorMetadata,
+  SubstrateMetadataOptions,
+} from './types';
+import {
+  SUBSTRATE_ERROR_TABLE,
+  decodeSubstrateVariant,
+  findBuiltInPallet,
+  findSubstrateDispatchError,
+  parseSubstrateMetadata,
+  toSectionName,
+} from './utils/substrate-error-decoder';
+import { createDecodedError, toConstantCase } from './utils/decoded-error';
+
+/**
+ * Scope of metadata registered without a chain
+ */
+const ALL_CHAINS = '*';
+
+/**
+ * Chain whose module layout is assumed when no chain is given
+ */
+const DEFAULT_LAYOUT = 'polkadot';
+
+/**
+ * Code reported for module errors that cannot be resolved
+ */
+const UNKNOWN_MODULE_ERROR_CODE = 'POLKADOT_MODULE_ERROR';
+
+/**
+ * Pallet error resolved from a module index and error index
+ */
+export interface ResolvedSubstrateError {
+  /** Pallet name (e.g. `Balances`) */
+  pallet: string;
+  /** Error name (e.g. `InsufficientBalance`) */
+  error: string;
+  /** Documentation of the error */
+  docs?: string[];
+}
+
+/**
+ * Registered runtime, indexed for lookups
+ */
+interface RegisteredRuntime {
+  metadata: SubstrateErrorMetadata;
+  pallets: Map<number, SubstrateErrorMetadata['pallets'][number]>;
+  messages: Record<string, string>;
+}
+
+/**
+ * In-memory registry for Substrate runtime error tables
+ */
+class SubstrateMetadataRegistry {
+  private runtimes = new Map<string, RegisteredRuntime>();
+
+  /**
+   * Register the module errors of a runtime
+   *
+   * Registering metadata for a chain again replaces it.
+   *
+   * @param metadata - Module error table or runtime metadata exported as JSON
+   * @param options - Chain and message templates
+   * @returns The registered module error table
+   * @throws Error if the metadata is invalid
+   *
+   * @example
+   * ```typescript
+   * registry.register(await api.runtimeMetadata.toJSON(), {
+   *   chain: 'my-parachain',
+   * });
+   * ```
+   */
+  register(
+    metadata: SubstrateErrorMetadata | unknown,
+    options: SubstrateMetadataOptions = {}
+  ): SubstrateErrorMetadata {
+    const table = parseSubstrateMetadata(metadata);
+
+    table.pallets.forEach(pallet => {
+      if (!Number.isInteger(pallet.index) || pallet.index < 0) {
+        throw new Error('Pallet indices must be non-negative integers');
+      }
+      if (!pallet.name || typeof pallet.name !== 'string') {
+        throw new Error('Pallet names must be non-empty strings');
+      }
+      pallet.errors.forEach(error => {
+        if (!Number.isInteger(error.index) || error.index < 0) {
+          throw new Error('Pallet error indices must be non-negative integers');
+        }
+        if (!error.name || typeof error.name !== 'string') {
+          throw new Error('Pallet error names must be non-empty strings');
+        }
+      });
+    });
+
+    // Message keys use section names, like decoded error names
+    const messages = Object.fromEntries(
+      Object.entries(options.messages ?? {}).map(([key, message]) => [
+        toSectionName(key),
+        message,
+      ])
+    );
+
+    this.runtimes.set(options.chain ?? ALL_CHAINS, {
+      metadata: table,
+      pallets: new Map(table.pallets.map(pallet => [pallet.index, pallet])),
+      messages,
+    });
+    return table;
+  }
+
+  /**
+   * Resolve a module error
+   *
+   * The metadata registered for the chain is consulted first, then metadata
+   * registered for all chains, then the built-in module layout of the chain
+   * (the Polkadot relay chain when no chain is given).
+   *
+   * @param palletIndex - Module index of the pallet
+   * @param errorIndex - Index of the error in the pallet's `Error` enum
+   * @param chain - The chain that raised the error
+   * @returns The resolved error or undefined
+   */
+  resolve(
+    palletIndex: number,
+    errorIndex: number,
+    chain?: string
+  ): ResolvedSubstrateError | undefined {
+    for (const runtime of this.getRuntimes(chain)) {
+      const pallet = runtime.pallets.get(palletIndex);
+      const error = pallet?.errors.find(
+        candidate => candidate.index === errorIndex
+      );
+      if (pallet && error) {
+        return {
+          pallet: pallet.name,
+          error: error.name,
+          ...(error.docs && error.docs.length > 0 && { docs: error.docs }),
+        };
+      }
+    }
+
+    const pallet =
+      SUBSTRATE_ERROR_TABLE.layouts[chain ?? DEFAULT_LAYOUT]?.[
+        String(palletIndex)
+      ];
+    const errors = pallet ? findBuiltInPallet(pallet)?.errors : undefined;
+    const error = Object.entries(errors ?? {}).find(
+      ([, variant]) => variant.index === errorIndex
+    );
+    return pallet && error ? { pallet, error: error[0] } : undefined;
+  }
+
+  /**
+   * Decode a Substrate dispatch error
+   *
+   * Module errors are resolved with `resolve` and reported as
+   * `pallet.ErrorName`, with registered messages, then built-in messages,
+   * then the error documentation as message. Unresolved module errors are
+   * still reported, without a message, so they are translated through the
+   * error mappings. Other variants are decoded from the built-in tables.
+   *
+   * @param error - The error to decode
+   * @param chain - The chain that raised the error
+   * @returns The decoded error or null if no dispatch error was recognised
+   */
+  decode(error: unknown, chain?: string): DecodedChainError | null {
+    const details = findSubstrateDispatchError(error);
+    if (!details) {
+      return null;
+    }
+
+    if (details.variant !== 'Module') {
+      return decodeSubstrateVariant(details);
+    }
+
+    const { palletIndex, errorIndex } = details;
+    const resolved =
+      details.pallet && details.error
+        ? {
+            pallet: details.pallet,
+            error: details.error,
+            ...(details.docs && { docs: details.docs }),
+          }
+        : palletIndex !== undefined && errorIndex !== undefined
+          ? this.resolve(palletIndex, errorIndex, chain)
+          : undefined;
+    const params = {
+      ...(palletIndex !== undefined && { palletIndex }),
+      ...(errorIndex !== undefined && { errorIndex }),
+      ...(resolved && { pallet: toSectionName(resolved.pallet) }),
+    };
+
+    if (!resolved) {
+      return {
+        ecosystem: 'polkadot',
+        name: 'Module',
+        code: UNKNOWN_MODULE_ERROR_CODE,
+        category: 'transaction',
+        retryable: false,
+        params,
+      };
+    }
+
+    const builtIn = findBuiltInPallet(resolved.pallet);
+    const variant = builtIn?.errors[resolved.error];
+    const name = `${toSectionName(resolved.pallet)}.${resolved.error}`;
+    const code = `${
+      builtIn?.codePrefix ?? `POLKADOT_${toConstantCase(resolved.pallet)}`
+    }_${toConstantCase(resolved.error)}`;
+    const registered = this.findMessage(name, chain);
+
+    if (variant) {
+      const { index, ...entry } = variant;
+      return createDecodedError(
+        'polkadot',
+        name,
+        code,
+        { ...entry, ...(registered && { message: registered }) },
+        params
+      );
+    }
+
+    const message = registered ?? resolved.docs?.join(' ').trim();
+    return {
+      ecosystem: 'polkadot',
+      name,
+      code,
+      category: 'transaction',
+      retryable: false,
+      ...(message && { message }),
+      params,
+    };
+  }
+
+  /**
+   * Get the registered runtimes for a chain, most specific first
+   */
+  private getRuntimes(chain?: string): RegisteredRuntime[] {
+    return [
+      chain && this.runtimes.get(chain),
+      this.runtimes.get(ALL_CHAINS),
+    ].filter((runtime): runtime is RegisteredRuntime => !!runtime);
+  }
+
+  /**
+   * Find a registered message template for a `pallet.ErrorName`
+   */
+  private findMessage(name: string, chain?: string): string | undefined {
+    return this.getRuntimes(chain)
+      .map(runtime => runtime.messages[name])
+      .find(message => message !== undefined);
+  }
+
+  /**
+   * Get the registered module error tables keyed by chain (`*` for all chains)
+   */
+  getAll(): Record<string, SubstrateErrorMetadata> {
+    return Object.fromEntries(
+      Array.from(this.runtimes, ([chain, runtime]) => [chain, runtime.metadata])
+    );
+  }
+
+  /**
+   * Clear all registered metadata (built-in tables are kept)
+   */
+  clear(): void {
+    this.runtimes.clear();
+  }
+}
+
+// Global registry instance
+export const substrateMetadataRegistry = new SubstrateMetadataRegistry();
+
+/**
+ * Register the module errors of a Substrate runtime
+ *
+ * @param metadata - Module error table or runtime metadata exported as JSON
+ * (`api.runtimeMetadata.toJSON()`)
+ * @param options - Chain and message templates keyed by `pallet.ErrorName`
+ * @returns The registered module error table
+ *
+ * @example
+ * ```typescript
+ * import { registerSubstrateMetadata } from 'web3-error-helper';
+ * import metadata from './metadata/my-parachain.json';
+ *
+ * registerSubstrateMetadata(metadata, {
+ *   chain: 'my-parachain',
+ *   messages: { 'vesting.NotVesting': 'This account has no vested funds.' },
+ * });
+ * ```
+ */
+export function registerSubstrateMetadata(
+  metadata: SubstrateErrorMetadata | unknown,
+  options?: SubstrateMetadataOptions
+): SubstrateErrorMetadata {
+  return substrateMetadataRegistry.register(metadata, options);
+}
+
+/**
+ * Get the pallet error registered or built in for a module error
+ *
+ * @param palletIndex - Module index of the pallet
+ * @param errorIndex - Index of the error in the pallet's `Error` enum
+ * @param chain - The chain that raised the error
+ * @returns The resolved error or undefined
+ */
+export function getSubstrateError(
+  palletIndex: number,
+  errorIndex: number,
+  chain?: string
+): ResolvedSubstrateError | undefined {
+  return substrateMetadataRegistry.resolve(palletIndex, errorIndex, chain);
+}
+
+/**
+ * Clear all registered Substrate metadata (built-in tables are kept)
+ */
+export function clearSubstrateMetadata(): void {
+  substrateMetadataRegistry.clear();
+}
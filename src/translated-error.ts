@@ -0,0 +1,212 @@
+/**
+ * Translated Web3 error
+ *
+ * This module provides an `Error` subclass that carries a translation
+ * result, so translated errors can be thrown through service layers and
+ * still expose the human-readable message, code, retryability and context.
+ * The original error is preserved as `cause`. Subclasses per error category
+ * (`WalletError`, `GasError`, `NonceError`, ...) let callers catch errors with
+ * `instanceof` instead of comparing codes.
+ */
+
+import {
+  DecodedRevert,
+  EnhancedErrorResult,
+  TranslatableError,
+  TranslateErrorOptions,
+} from './types';
+import { translateError } from './services/error-translation';
+
+/**
+ * Options for creating a translated error
+ */
+export interface TranslatedWeb3ErrorOptions {
+  /** The original error */
+  cause?: unknown;
+  /** Number of attempts made before the error was thrown */
+  attempts?: number;
+}
+
+/**
+ * Error thrown with the translation of the original error
+ */
+export class TranslatedWeb3Error extends Error {
+  /** The translation result */
+  readonly result: EnhancedErrorResult;
+  /** Number of attempts made before the error was thrown */
+  readonly attempts: number;
+
+  constructor(
+    result: EnhancedErrorResult,
+    { cause, attempts = 1 }: TranslatedWeb3ErrorOptions = {}
+  ) {
+    super(result.message, { cause });
+    this.name = 'TranslatedWeb3Error';
+    this.result = result;
+    this.attempts = attempts;
+  }
+
+  /** Stable machine-readable error code */
+  get code(): string {
+    return this.result.code;
+  }
+
+  /** Error category */
+  get category(): string {
+    return this.result.category;
+  }
+
+  /** Whether the failed operation can be retried */
+  get retryable(): boolean {
+    return this.result.retryable;
+  }
+}
+
+/**
+ * Error thrown when the wallet rejected or could not handle a request
+ */
+export class WalletError extends TranslatedWeb3Error {
+  override name = 'WalletError';
+}
+
+/**
+ * Error thrown for gas limit, gas price and balance-for-gas failures
+ */
+export class GasError extends TranslatedWeb3Error {
+  override name = 'GasError';
+}
+
+/**
+ * Error thrown for RPC, connectivity and rate limit failures
+ */
+export class NetworkError extends TranslatedWeb3Error {
+  override name = 'NetworkError';
+}
+
+/**
+ * Error thrown when a transaction was rejected or could not be processed
+ */
+export class TransactionError extends TranslatedWeb3Error {
+  override name = 'TransactionError';
+}
+
+/**
+ * Error thrown when the transaction nonce is out of sync with the account
+ */
+export class NonceError extends TransactionError {
+  override name = 'NonceError';
+}
+
+/**
+ * Error thrown when contract execution reverted or the EVM failed
+ */
+export class ContractRevertError extends TranslatedWeb3Error {
+  override name = 'ContractRevertError';
+
+  /** Decoded revert data, when present on the original error */
+  get revert(): DecodedRevert | undefined {
+    return this.result.revert;
+  }
+}
+
+/**
+ * Error thrown when a token contract rejected a transfer, allowance or
+ * balance check
+ */
+export class TokenError extends ContractRevertError {
+  override name = 'TokenError';
+}
+
+/**
+ * Error class for each result category
+ */
+const ERROR_CLASSES: Record<string, typeof TranslatedWeb3Error> = {
+  wallet: WalletError,
+  gas: GasError,
+  network: NetworkError,
+  transaction: TransactionError,
+  erc20: TokenError,
+  contract: ContractRevertError,
+  evm: ContractRevertError,
+};
+
+/**
+ * Pick the error class for a translation result
+ *
+ * Nonce errors become `NonceError`. Reverted executions and errors with
+ * decoded revert data become `ContractRevertError` unless their category maps
+ * to a more specific revert class. Otherwise the class is picked from the
+ * result category, with `TranslatedWeb3Error` for unknown categories.
+ */
+function getErrorClass(
+  result: EnhancedErrorResult
+): typeof TranslatedWeb3Error {
+  const codeWords = result.code.split('_');
+  if (codeWords.includes('NONCE')) {
+    return NonceError;
+  }
+
+  const ErrorClass = ERROR_CLASSES[result.category];
+  if (
+    (result.revert || codeWords.includes('REVERTED')) &&
+    !(ErrorClass?.prototype instanceof ContractRevertError)
+  ) {
+    return ContractRevertError;
+  }
+
+  return ErrorClass ?? TranslatedWeb3Error;
+}
+
+/**
+ * Create the typed error matching a translation result
+ *
+ * @param result - The translation result
+ * @param options - The original error and number of attempts
+ * @returns A typed error carrying the result
+ */
+export function createTranslatedError(
+  result: EnhancedErrorResult,
+  options: TranslatedWeb3ErrorOptions = {}
+): TranslatedWeb3Error {
+  const ErrorClass = getErrorClass(result);
+  return new ErrorClass(result, options);
+}
+
+/**
+ * Translate an error into a typed error that can be thrown
+ *
+ * Errors that are already translated are returned unchanged.
+ *
+ * @param error - The error to translate
+ * @param options - Options for `translateError`
+ * @returns A typed error carrying the translation, with the original error as
+ * `cause`
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await contract.transfer(to, amount);
+ * } catch (error) {
+ *   throw toTranslatedError(error, { chain: 'polygon' });
+ * }
+ *
+ * // Higher up
+ * if (error instanceof NonceError) {
+ *   await resyncNonce();
+ * } else if (error instanceof WalletError) {
+ *   showToast(error.message);
+ * }
+ * ```
+ */
+export function toTranslatedError(
+  error: TranslatableError,
+  options: TranslateErrorOptions = {}
+): TranslatedWeb3Error {
+  if (error instanceof TranslatedWeb3Error) {
+    return error;
+  }
+
+  return createTranslatedError(translateError(error, options), {
+    cause: error,
+  });
+}
@@ -78,10 +78,30 @@ export interface ChainAdapter {
    */
   getErrorPatterns(): Record<string, string>;
 
+  /**
+   * Get stable error codes, keyed by the same patterns as `getErrorPatterns`
+   */
+  getErrorCodes?(): Record<string, string>;
+
+  /**
+   * Get retryability and severity overrides, keyed by error type
+   * (`network`, `wallet`, `contract`, `gas`, `transaction`) or by one of the
+   * patterns of `getErrorPatterns`
+   */
+  getErrorClassifications?(): Record<string, ErrorClassificationRule>;
+
   /**
    * Get ecosystem-specific fallback messages
    */
   getFallbackMessages(): Record<string, string>;
+
+  /**
+   * Decode the structured payload of an ecosystem error, if recognised
+   *
+   * `chain` is the chain requested in the translation options, for
+   * ecosystems whose error layout differs per chain.
+   */
+  decodeError?(error: unknown, chain?: string): DecodedChainError | null;
 }
 
 /**
@@ -196,17 +216,140 @@ export interface TranslateErrorOptions {
   fallbackLanguage?: string;
   /** Custom locales for i18n */
   customLocales?: Record<string, Record<string, unknown>>;
+  /** Address of the reverting contract, used to resolve custom errors */
+  contractAddress?: string;
+  /** Attach a debug trace explaining how the result was produced */
+  explain?: boolean;
+}
+
+/**
+ * Options for retrying Web3 calls based on translated errors
+ */
+export interface RetryWeb3CallOptions extends TranslateErrorOptions {
+  /** Maximum number of retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay when the error does not suggest one, in milliseconds (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, in milliseconds (default 30000) */
+  maxDelayMs?: number;
+  /** Share of each delay that is randomized, from 0 to 1 (default 0.5) */
+  jitter?: number;
+  /** Decide whether to retry (defaults to the result's `retryable` flag) */
+  shouldRetry?: (result: EnhancedErrorResult, attempt: number) => boolean;
+  /** Called before each retry, e.g. to resync the nonce for `resync` errors */
+  onRetry?: (
+    result: EnhancedErrorResult,
+    attempt: number,
+    delayMs: number
+  ) => void | Promise<void>;
+}
+
+/**
+ * How an error mapping pattern is matched against error messages
+ *
+ * - `exact`: the whole message equals the pattern (case-insensitive)
+ * - `contains`: the pattern appears anywhere in the message
+ * - `startsWith`: the message begins with the pattern
+ * - `tokens`: every word of the pattern appears in the message, in any order
+ * - `regex`: the pattern is a case-insensitive regular expression
+ */
+export type ErrorMatchMode =
+  | 'exact'
+  | 'contains'
+  | 'startsWith'
+  | 'tokens'
+  | 'regex';
+
+/**
+ * Severity of an error
+ */
+export type ErrorSeverityLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * How a retryable operation should be retried
+ *
+ * - `immediate`: retry right away
+ * - `backoff`: retry after a delay that grows with each attempt
+ * - `resync`: refresh chain state (nonce, fees, blockhash) before retrying
+ */
+export type RetryStrategy = 'immediate' | 'backoff' | 'resync';
+
+/**
+ * Retryability and severity declared by mappings, categories and adapters
+ */
+export interface ErrorClassificationRule {
+  /** Whether the failed operation can be retried automatically */
+  retryable?: boolean;
+  /** How to retry (defaults to `backoff` with a delay, else `immediate`) */
+  retryStrategy?: RetryStrategy;
+  /** Suggested delay before the first retry, in milliseconds */
+  backoffMs?: number;
+  /** Severity of the error */
+  severity?: ErrorSeverityLevel;
 }
 
-export interface ErrorMapping {
+/**
+ * Remediation actions that can be suggested to users
+ */
+export const ERROR_ACTION_TYPES = [
+  'switch_network',
+  'increase_gas_limit',
+  'approve_token',
+  'retry_later',
+  'speed_up_transaction',
+  'add_funds',
+] as const;
+
+/**
+ * Remediation action type
+ */
+export type ErrorActionType = (typeof ERROR_ACTION_TYPES)[number];
+
+/**
+ * Remediation action declared on an error mapping
+ */
+export interface ErrorActionDefinition {
+  /** What the user should do */
+  type: ErrorActionType;
+  /** Action parameters (e.g. `{ multiplier: 1.2 }`), also available to the label */
+  params?: Record<string, string | number>;
+}
+
+/**
+ * Remediation action attached to a translation result
+ */
+export interface ErrorAction extends ErrorActionDefinition {
+  /** Localized label, translated from the `actions.<type>` key */
+  label: string;
+}
+
+export interface ErrorMapping extends ErrorClassificationRule {
   /** The error pattern to match (can be regex or exact string) */
   pattern: string;
   /** The human-readable message to return */
   message: string;
+  /** Stable machine-readable error code (e.g. `WALLET_USER_REJECTED`) */
+  code?: string;
+  /** Error category the mapping belongs to (set when mappings are loaded) */
+  category?: string;
   /** Whether the pattern should be treated as a regex */
   isRegex?: boolean;
+  /** How the pattern is matched (defaults to `regex` if isRegex, else `exact`) */
+  matchMode?: ErrorMatchMode;
+  /**
+   * Only match the reason decoded from revert data, never the error message
+   * (for short reason codes like Aave's `27`)
+   */
+  revertOnly?: boolean;
+  /**
+   * Only match errors raised by these contract addresses (for reason codes
+   * a single protocol uses)
+   */
+  contracts?: string[];
   /** Priority for matching (higher numbers take precedence) */
   priority?: number;
+  /** Suggested remediation actions */
+  actions?: ErrorActionDefinition[];
 }
 
 /**
@@ -215,17 +358,484 @@ export interface ErrorMapping {
 export type CreateErrorMapping = {
   pattern: string;
   message: string;
+  code?: string;
+  category?: string;
   isRegex?: boolean;
+  matchMode?: ErrorMatchMode;
+  revertOnly?: boolean;
+  contracts?: string[];
   priority?: number;
-};
+  actions?: ErrorActionDefinition[];
+} & ErrorClassificationRule;
 
 export interface ChainErrorMappings {
   /** Chain identifier */
   chain: string;
+  /** Error category of the mappings */
+  category?: string;
+  /** Classification applied to mappings that do not declare their own */
+  defaults?: ErrorClassificationRule;
   /** Error mappings for this chain */
   mappings: ErrorMapping[];
 }
 
+/**
+ * Solidity ABI parameter description (as found in contract ABI JSON)
+ */
+export interface AbiParameter {
+  /** Parameter name */
+  name?: string;
+  /** Solidity type (e.g. `uint256`, `address[]`, `tuple`) */
+  type: string;
+  /** Tuple components */
+  components?: AbiParameter[];
+}
+
+/**
+ * Decoded ABI value: integers as decimal strings, addresses and bytes as hex,
+ * arrays and tuples as nested arrays
+ */
+export type AbiValue = string | boolean | AbiValue[];
+
+/**
+ * Error fragment of a contract ABI
+ */
+export interface AbiErrorFragment {
+  type: 'error';
+  name: string;
+  inputs?: AbiParameter[];
+}
+
+/**
+ * Configuration for registering Solidity custom errors
+ */
+export interface CustomErrorConfig {
+  /** Contract ABI (non-error fragments are ignored) or bare error signatures */
+  abi: ReadonlyArray<string | AbiErrorFragment | { type: string }>;
+  /** Chain the errors apply to; omit to apply on every chain */
+  chain?: string;
+  /** Contract address the errors apply to; omit to apply to any contract */
+  address?: string;
+  /** Message templates keyed by error name, using `{{param}}` placeholders */
+  messages?: Record<string, string>;
+}
+
+/**
+ * Resolved custom error definition
+ */
+export interface CustomErrorDefinition {
+  /** Error name */
+  name: string;
+  /** Canonical signature (e.g. `InsufficientShares(uint256,uint256)`) */
+  signature: string;
+  /** 4-byte selector */
+  selector: string;
+  /** Error parameters */
+  inputs: AbiParameter[];
+  /** Chain the definition is scoped to */
+  chain?: string;
+  /** Contract address the definition is scoped to */
+  address?: string;
+  /** Message template with `{{param}}` placeholders */
+  message?: string;
+  /** Protocol or library that defines the error (built-in definitions) */
+  source?: string;
+}
+
+/**
+ * Entry of the built-in custom error selector table
+ */
+export interface BuiltInCustomError {
+  /** 4-byte selector of the canonical signature */
+  selector: string;
+  /** Human-readable signature with parameter names */
+  signature: string;
+  /** Protocol or library that defines the error */
+  source: string;
+  /** Message template with `{{param}}` placeholders */
+  message: string;
+}
+
+/**
+ * Built-in custom error selector table (as stored in JSON)
+ */
+export interface CustomErrorSelectorTable {
+  /** Chain identifier */
+  chain: string;
+  /** Known custom errors */
+  errors: BuiltInCustomError[];
+}
+
+/**
+ * Solidity revert data decoded from an EVM error
+ */
+export interface DecodedRevert {
+  /** Kind of revert payload */
+  kind: 'error' | 'panic' | 'custom';
+  /** 4-byte selector of the revert payload */
+  selector: string;
+  /** Raw hex encoded revert data */
+  data: string;
+  /** Reason string of an `Error(string)` revert */
+  reason?: string;
+  /** Panic code of a `Panic(uint256)` revert (e.g. `0x11`) */
+  panicCode?: string;
+  /** Name of a decoded custom error */
+  name?: string;
+  /** Canonical signature of a decoded custom error */
+  signature?: string;
+  /** Custom error arguments keyed by parameter name (or position if unnamed) */
+  args?: Record<string, AbiValue>;
+}
+
+/**
+ * Error decoded from the structured payload of a non-EVM error
+ */
+export interface DecodedChainError extends ErrorClassificationRule {
+  /** Ecosystem that produced the error */
+  ecosystem: BlockchainEcosystem;
+  /** Name of the error variant (e.g. `BlockhashNotFound`) */
+  name: string;
+  /** Stable machine-readable error code (e.g. `SOLANA_BLOCKHASH_NOT_FOUND`) */
+  code: string;
+  /** Error category (e.g. `transaction`, `contract`) */
+  category: string;
+  /**
+   * Message template with `{{param}}` placeholders. Errors without one are
+   * translated through the error mappings.
+   */
+  message?: string;
+  /** Decoded values, such as the failing instruction index, used in templates */
+  params?: Record<string, string | number>;
+  /** Whether the fee of the failed transaction was charged */
+  feeConsumed?: boolean;
+  /** Failed operations of a multi-operation transaction, in order */
+  operations?: DecodedOperationError[];
+}
+
+/**
+ * Failed operation of a transaction
+ */
+export interface DecodedOperationError {
+  /** Index of the operation in the transaction */
+  index: number;
+  /** Operation result code (e.g. `op_underfunded`) */
+  code: string;
+  /** Operation type, when known (e.g. `payment`) */
+  type?: string;
+  /** Message explaining the failure */
+  message?: string;
+}
+
+/**
+ * Error raised by a Solana program, identified by its numeric code
+ */
+export interface SolanaProgramError {
+  /** Numeric error code (e.g. `6000` for the first Anchor program error) */
+  code: number;
+  /** Error name (e.g. `InsufficientFunds`) */
+  name: string;
+  /** Message template with `{{param}}` placeholders */
+  message?: string;
+}
+
+/**
+ * Error codes of a Solana program
+ */
+export interface SolanaProgramErrorConfig {
+  /** Base58 program id */
+  programId: string;
+  /** Human-readable program name */
+  name?: string;
+  /** Prefix of the error codes (defaults to `SOLANA_PROGRAM`) */
+  codePrefix?: string;
+  /** Errors raised by the program */
+  errors: SolanaProgramError[];
+}
+
+/**
+ * Error entry of an Anchor IDL
+ */
+export interface AnchorIdlError {
+  code: number;
+  name: string;
+  msg?: string;
+}
+
+/**
+ * Anchor IDL, as generated by `anchor build` (only the fields used for errors)
+ */
+export interface AnchorIdl {
+  /** Program id (Anchor 0.30+) */
+  address?: string;
+  /** Program name (before Anchor 0.30) */
+  name?: string;
+  metadata?: {
+    /** Program name (Anchor 0.30+) */
+    name?: string;
+    /** Program id (before Anchor 0.30) */
+    address?: string;
+  };
+  errors?: AnchorIdlError[];
+}
+
+/**
+ * Options for registering an Anchor IDL
+ */
+export interface AnchorIdlOptions {
+  /** Program id, when the IDL does not contain it or the program is deployed elsewhere */
+  programId?: string;
+  /** Prefix of the error codes (defaults to `SOLANA_PROGRAM`) */
+  codePrefix?: string;
+  /** Message templates keyed by error name, replacing the IDL messages */
+  messages?: Record<string, string>;
+}
+
+/**
+ * Built-in Solana error tables (as stored in JSON)
+ */
+export interface SolanaErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** `TransactionError` variants keyed by name */
+  transactionErrors: Record<string, ChainErrorVariant>;
+  /** `InstructionError` variants keyed by name */
+  instructionErrors: Record<string, ChainErrorVariant>;
+  /** Error codes of well-known programs */
+  programs: Array<
+    Omit<SolanaProgramErrorConfig, 'programId'> & { programIds: string[] }
+  >;
+  /** Anchor framework errors, raised by any Anchor program */
+  anchorErrors: Omit<SolanaProgramErrorConfig, 'programId'>;
+}
+
+/**
+ * Built-in Cosmos SDK error tables (as stored in JSON)
+ */
+export interface CosmosErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** Errors keyed by codespace, then by ABCI code */
+  codespaces: Record<string, Record<string, CosmosErrorVariant>>;
+}
+
+/**
+ * Built-in description of a Cosmos SDK error
+ */
+export interface CosmosErrorVariant extends ChainErrorVariant {
+  /** Error name, without the `Err` prefix (e.g. `InsufficientFunds`) */
+  name: string;
+  /** Stable machine-readable error code */
+  code: string;
+  /** Description registered by the module, which ends the raw log */
+  description: string;
+}
+
+/**
+ * Built-in Substrate error tables (as stored in JSON)
+ */
+export interface SubstrateErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** `DispatchError` variants without a nested error, keyed by name */
+  dispatchErrors: Record<string, ChainErrorVariant>;
+  /** `TokenError` variants keyed by name */
+  tokenErrors: Record<string, ChainErrorVariant>;
+  /** `ArithmeticError` variants keyed by name */
+  arithmeticErrors: Record<string, ChainErrorVariant>;
+  /** `TransactionalError` variants keyed by name */
+  transactionalErrors: Record<string, ChainErrorVariant>;
+  /** Errors of common pallets, keyed by pallet name */
+  pallets: Record<string, SubstratePalletErrors>;
+  /** Pallet names keyed by module index, per chain */
+  layouts: Record<string, Record<string, string>>;
+}
+
+/**
+ * Built-in errors of a Substrate pallet
+ */
+export interface SubstratePalletErrors {
+  /** Prefix of the error codes (e.g. `POLKADOT_BALANCES`) */
+  codePrefix: string;
+  /** Other names the pallet is deployed under (e.g. `polkadotXcm`) */
+  aliases?: string[];
+  /** Errors keyed by name */
+  errors: Record<string, SubstratePalletErrorVariant>;
+}
+
+/**
+ * Built-in description of a pallet error
+ */
+export interface SubstratePalletErrorVariant extends ChainErrorVariant {
+  /** Index of the error in the pallet's `Error` enum */
+  index: number;
+}
+
+/**
+ * Error table of a Substrate runtime, keyed by module index
+ *
+ * Runtime metadata exported as JSON (`api.runtimeMetadata.toJSON()` with
+ * `@polkadot/api`, V14 or later) can be registered as well and is converted
+ * to this shape.
+ */
+export interface SubstrateErrorMetadata {
+  pallets: Array<{
+    /** Module index of the pallet */
+    index: number;
+    /** Pallet name (e.g. `Balances`) */
+    name: string;
+    errors: Array<{
+      /** Index of the error in the pallet's `Error` enum */
+      index: number;
+      /** Error name (e.g. `InsufficientBalance`) */
+      name: string;
+      /** Documentation of the error */
+      docs?: string[];
+    }>;
+  }>;
+}
+
+/**
+ * Options for registering Substrate runtime metadata
+ */
+export interface SubstrateMetadataOptions {
+  /** Chain the metadata belongs to; metadata without a chain applies to all */
+  chain?: string;
+  /** Message templates keyed by `pallet.ErrorName` (e.g. `balances.InsufficientBalance`) */
+  messages?: Record<string, string>;
+}
+
+/**
+ * Built-in NEAR error tables (as stored in JSON)
+ */
+export interface NearErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /**
+   * Variants of the `TxExecutionError` tree keyed by enum (e.g.
+   * `InvalidTxError`, `ActionError`, `HostError`), then by variant name
+   */
+  groups: Record<string, Record<string, NearErrorVariant>>;
+}
+
+/**
+ * Built-in description of a NEAR error variant
+ */
+export interface NearErrorVariant extends ChainErrorVariant {
+  /** Stable error code, when it differs from `NEAR_<VARIANT_NAME>` */
+  code?: string;
+}
+
+/**
+ * Built-in XRPL engine result tables (as stored in JSON)
+ */
+export interface XrplErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** Result classes keyed by prefix (`tec`, `tef`, `tel`, `tem`, `ter`) */
+  classes: Record<string, XrplResultClass>;
+  /** Engine results keyed by code (e.g. `tecUNFUNDED_PAYMENT`) */
+  results: Record<string, XrplResultVariant>;
+}
+
+/**
+ * Built-in description of an XRPL engine result class
+ */
+export interface XrplResultClass extends ChainErrorVariant {
+  /** What results of the class mean for the transaction */
+  description: string;
+  feeConsumed: boolean;
+}
+
+/**
+ * Built-in description of an XRPL engine result, overriding its class
+ */
+export interface XrplResultVariant extends ErrorClassificationRule {
+  /** Message template with `{{param}}` placeholders */
+  message: string;
+  /** Error category, when it differs from the class */
+  category?: string;
+  /** Whether the fee was charged, when it differs from the class */
+  feeConsumed?: boolean;
+}
+
+/**
+ * Built-in Stellar error tables (as stored in JSON)
+ */
+export interface StellarErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** Horizon problem types (e.g. `rate_limit_exceeded`) */
+  problems: Record<string, StellarErrorVariant>;
+  /** Transaction result codes (e.g. `tx_bad_seq`) */
+  transactionErrors: Record<string, StellarErrorVariant>;
+  /**
+   * Operation result codes keyed by operation type (e.g. `payment`), then by
+   * code; codes shared by all operation types are under `common`
+   */
+  operationErrors: Record<string, Record<string, StellarErrorVariant>>;
+}
+
+/**
+ * Built-in description of a Stellar error
+ */
+export interface StellarErrorVariant extends ChainErrorVariant {
+  /** Stable error code, when it differs from `STELLAR_<RESULT_CODE>` */
+  code?: string;
+}
+
+/**
+ * Built-in Tezos error tables (as stored in JSON)
+ */
+export interface TezosErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** RPC errors keyed by id, without the protocol prefix (e.g. `contract.balance_too_low`) */
+  errors: Record<string, TezosErrorVariant>;
+  /** Well-known `FAILWITH` values of token standards (e.g. `FA2_NOT_OPERATOR`) */
+  failwith: Record<string, TezosErrorVariant>;
+}
+
+/**
+ * Built-in description of a Tezos error
+ */
+export interface TezosErrorVariant extends ChainErrorVariant {
+  /** Stable error code, when it differs from `TEZOS_<ERROR_ID>` */
+  code?: string;
+}
+
+/**
+ * Built-in Algorand error tables (as stored in JSON)
+ */
+export interface AlgorandErrorTable {
+  /** Ecosystem identifier */
+  ecosystem: string;
+  /** `algod` rejections keyed by name (e.g. `overspend`, `assertFailed`) */
+  rejections: Record<string, AlgorandErrorVariant>;
+}
+
+/**
+ * Built-in description of an Algorand error
+ */
+export interface AlgorandErrorVariant extends ChainErrorVariant {
+  /** Stable error code, when it differs from `ALGORAND_<REJECTION_NAME>` */
+  code?: string;
+}
+
+/**
+ * Built-in description of a chain error variant
+ */
+export interface ChainErrorVariant extends ErrorClassificationRule {
+  /** Message template with `{{param}}` placeholders */
+  message: string;
+  /** More specific template, used when all of its params were decoded */
+  detailedMessage?: string;
+  /** Error category */
+  category: string;
+  /** Whether the fee of the failed transaction was charged */
+  feeConsumed?: boolean;
+}
+
 export interface ErrorTranslationResult {
   /** The translated error message */
   message: string;
@@ -255,7 +865,7 @@ export interface EnhancedErrorResult extends ErrorTranslationResult {
     /** Target language for translation */
     language?: string;
     /** Error severity level */
-    severity: 'low' | 'medium' | 'high' | 'critical';
+    severity: ErrorSeverityLevel;
     /** Operation that triggered the error */
     operation: string;
     /** Additional metadata for debugging */
@@ -263,8 +873,163 @@ export interface EnhancedErrorResult extends ErrorTranslationResult {
   };
   /** Whether the operation can be retried */
   retryable: boolean;
+  /** How to retry (only when retryable) */
+  retryStrategy?: RetryStrategy;
+  /** Suggested delay before the first retry in milliseconds (only when retryable) */
+  backoffMs?: number;
   /** Whether a fallback message was used */
   fallbackUsed: boolean;
+  /** Stable machine-readable error code (e.g. `WALLET_USER_REJECTED`) */
+  code: string;
+  /** Error category (e.g. `wallet`, `gas`, `erc20`) */
+  category: string;
+  /** Suggested remediation actions, when the matched mapping declares any */
+  actions?: ErrorAction[];
+  /** Decoded Solidity revert data, when present on an EVM error */
+  revert?: DecodedRevert;
+  /** Error decoded from the payload of a non-EVM error */
+  decoded?: DecodedChainError;
+  /** Debug trace of the translation (only with `explain: true`) */
+  trace?: TranslationTrace;
+}
+
+/**
+ * Aggregate counts for a batch translation
+ */
+export interface BatchTranslationStats {
+  /** Number of errors in the batch */
+  total: number;
+  /** Number of distinct errors that were translated */
+  unique: number;
+  /** Number of errors with a translated message */
+  translated: number;
+  /** Number of errors that fell back to a generic message */
+  fallbackUsed: number;
+  /** Error counts per lowercase error type (`unknown` when undetected) */
+  byErrorType: Record<string, number>;
+  /** Error counts per matched mapping pattern */
+  byMapping: Record<string, number>;
+}
+
+/**
+ * Result of translating a batch of errors
+ */
+export interface BatchTranslationResult {
+  /** Translation results in input order */
+  results: EnhancedErrorResult[];
+  /** Aggregate counts over the batch */
+  stats: BatchTranslationStats;
+}
+
+/**
+ * Translation result stored in the translation cache
+ */
+export interface CachedTranslation {
+  /** The cached result */
+  value: EnhancedErrorResult;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Key-value store backing the translation cache
+ *
+ * Implement this to share cached translations between processes. `keys`
+ * must iterate in insertion order; the first key is evicted when the cache
+ * is full.
+ */
+export interface TranslationCacheStore {
+  get(key: string): CachedTranslation | undefined;
+  set(key: string, entry: CachedTranslation): void;
+  delete(key: string): void;
+  clear(): void;
+  size(): number;
+  keys(): IterableIterator<string>;
+}
+
+/**
+ * Translation cache configuration
+ */
+export interface TranslationCacheOptions {
+  /** Whether results are cached (default: true) */
+  enabled?: boolean;
+  /** Maximum number of cached results (default: 1000) */
+  maxSize?: number;
+  /** Time to live in milliseconds (default: 5 minutes) */
+  ttl?: number;
+  /** Eviction strategy when the cache is full (default: `fifo`) */
+  strategy?: 'lru' | 'fifo';
+  /** Custom backing store */
+  store?: TranslationCacheStore;
+}
+
+/**
+ * Translation cache statistics
+ */
+export interface TranslationCacheStats {
+  enabled: boolean;
+  size: number;
+  maxSize: number;
+  ttl: number;
+  strategy: 'lru' | 'fifo';
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/**
+ * Error mapping considered while matching, with its match result
+ */
+export interface MappingCandidate {
+  /** The mapping pattern */
+  pattern: string;
+  /** Effective match mode of the mapping */
+  matchMode: ErrorMatchMode;
+  /** Mapping priority */
+  priority: number;
+  /** Which text was matched: the decoded revert message or the error message */
+  input: 'revert' | 'message';
+  /** Whether the mapping matched */
+  matched: boolean;
+  /** Match score (null when the mapping did not match) */
+  score: number | null;
+}
+
+/**
+ * Structured trace explaining how a translation result was produced
+ */
+export interface TranslationTrace {
+  /** Adapter used to extract the error message */
+  adapter: {
+    name: string;
+    ecosystem: BlockchainEcosystem;
+    /** Whether the adapter came from the `ecosystem` option, the custom chain's ecosystem, detection or the EVM default */
+    selection: 'option' | 'chain' | 'detected' | 'default';
+  };
+  /** Message extracted by the adapter */
+  extractedMessage: string;
+  /** Decoded revert reason, panic code or custom error name */
+  revertMessage?: string;
+  /** Mappings considered, in evaluation order */
+  candidates: MappingCandidate[];
+  /** The mapping that produced the message, if any */
+  matchedMapping?: ErrorMapping;
+  /** Detected error type */
+  errorType: ErrorType | null;
+  /** Translation key looked up for the message, if any */
+  i18nKey?: string;
+  /** Whether the translation key resolved in the target language */
+  i18nKeyFound?: boolean;
+  /** Where the message came from */
+  source:
+    | 'custom-error'
+    | 'decoded'
+    | 'mapping'
+    | 'i18n'
+    | 'custom-fallback'
+    | 'fallback';
+  /** Whether the result was served from the translation cache */
+  cacheHit: boolean;
 }
 
 /**
@@ -307,6 +1072,19 @@ export interface CustomChainConfig {
   };
   /** Whether this chain is EVM-compatible */
   isEVMCompatible?: boolean;
+  /**
+   * Blockchain ecosystem of the chain (defaults to `evm`). Non-EVM chains use
+   * the ecosystem adapter's error patterns and fallback messages instead of
+   * the EVM error categories.
+   */
+  ecosystem?: BlockchainEcosystem;
+  /** Built-in chain whose error categories are inherited (e.g. `ethereum`) */
+  extends?: SupportedChain | string;
+  /**
+   * Mappings replacing inherited error categories, or adding categories that
+   * are not inherited. An empty array removes the category.
+   */
+  categoryOverrides?: Partial<Record<EVMErrorType, ErrorMapping[]>>;
   /** Chain-specific metadata */
   metadata?: Record<string, unknown>;
 }
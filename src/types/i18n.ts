@@ -398,6 +398,7 @@ export interface I18nManager {
     _language?: string,
     _params?: Record<string, string>
   ): string;
+  interpolate(_template: string, _params?: Record<string, string>): string;
   setCurrentLanguage(_language: string): void;
   getCurrentLanguage(): string;
   getSupportedLanguages(): string[];
@@ -411,7 +412,7 @@ export interface LanguageBundleManager {
   getAvailableLanguages(): Array<{ code: string; info: LanguageInfo }>;
   getLoadedLanguages(): string[];
   isLanguageLoaded(_language: string): boolean;
-  loadLanguage(_language: string): void;
+  loadLanguage(_language: string): Promise<void>;
   unloadLanguage(_language: string): void;
 }
 
@@ -0,0 +1,355 @@
+/**
+ * Minimal Solidity ABI utilities
+ *
+ * This module parses human-readable error signatures, computes 4-byte
+ * selectors and decodes ABI-encoded parameters. It supports every elementary
+ * type plus dynamic and fixed-size arrays and tuples, which covers the
+ * argument shapes used by Solidity custom errors.
+ */
+
+import { AbiParameter, AbiValue } from '../types';
+import { keccak256Hex } from './keccak';
+
+/**
+ * Size of a single ABI word in hex characters
+ */
+const WORD_SIZE = 64;
+
+/**
+ * Parsed representation of a human-readable error signature
+ */
+export interface ParsedErrorSignature {
+  name: string;
+  inputs: AbiParameter[];
+}
+
+/**
+ * Parse a human-readable error signature
+ *
+ * @param signature - Signature such as `error InsufficientShares(uint256 have, uint256 want)`
+ * or its canonical form `InsufficientShares(uint256,uint256)`
+ * @throws {Error} When the signature cannot be parsed
+ */
+export function parseErrorSignature(signature: string): ParsedErrorSignature {
+  const trimmed = signature.trim().replace(/^error\s+/, '');
+  const match = trimmed.match(/^([A-Za-z_$][\w$]*)\s*\((.*)\)\s*;?$/s);
+  if (!match || match[1] === undefined || match[2] === undefined) {
+    throw new Error(`Invalid error signature: '${signature}'`);
+  }
+
+  return { name: match[1], inputs: parseParameterList(match[2]) };
+}
+
+/**
+ * Parse a comma separated parameter list, honouring nested tuples
+ */
+function parseParameterList(list: string): AbiParameter[] {
+  if (list.trim() === '') {
+    return [];
+  }
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(parseParameter);
+}
+
+/**
+ * Parse a single parameter such as `uint256 amount` or `(address,uint256)[] orders`
+ */
+function parseParameter(source: string): AbiParameter {
+  const param = source.trim();
+
+  if (param.startsWith('(') || param.startsWith('tuple(')) {
+    const open = param.indexOf('(');
+    let depth = 0;
+    let close = -1;
+    for (let i = open; i < param.length; i++) {
+      if (param[i] === '(') depth++;
+      if (param[i] === ')') depth--;
+      if (depth === 0) {
+        close = i;
+        break;
+      }
+    }
+    if (close === -1) {
+      throw new Error(`Invalid tuple parameter: '${source}'`);
+    }
+
+    const [suffix = '', name] = splitTypeAndName(param.slice(close + 1));
+    return {
+      type: `tuple${suffix}`,
+      ...(name && { name }),
+      components: parseParameterList(param.slice(open + 1, close)),
+    };
+  }
+
+  const [type = '', name] = splitTypeAndName(param);
+  if (!/^[a-z]+\d*(\[\d*\])*$/.test(type)) {
+    throw new Error(`Invalid parameter type: '${source}'`);
+  }
+
+  return { type: normalizeType(type), ...(name && { name }) };
+}
+
+/**
+ * Split `type [indexed] [name]` into its type and name
+ */
+function splitTypeAndName(source: string): [string, string | undefined] {
+  const tokens = source
+    .trim()
+    .split(/\s+/)
+    .filter(token => token !== '' && token !== 'indexed');
+  return [tokens[0] ?? '', tokens[1]];
+}
+
+/**
+ * Expand type aliases (`uint` -> `uint256`) so selectors are canonical
+ */
+function normalizeType(type: string): string {
+  return type.replace(/^(u?int)(?=$|\[)/, '$1256');
+}
+
+/**
+ * Build the canonical type of a parameter, expanding tuples
+ */
+function canonicalType(param: AbiParameter): string {
+  if (param.type.startsWith('tuple')) {
+    const suffix = param.type.slice('tuple'.length);
+    const components = (param.components ?? []).map(canonicalType).join(',');
+    return `(${components})${suffix}`;
+  }
+  return normalizeType(param.type);
+}
+
+/**
+ * Build the canonical signature used for selector hashing
+ *
+ * @example
+ * ```typescript
+ * formatErrorSignature('InsufficientShares', [
+ *   { name: 'have', type: 'uint256' },
+ *   { name: 'want', type: 'uint256' },
+ * ]); // 'InsufficientShares(uint256,uint256)'
+ * ```
+ */
+export function formatErrorSignature(
+  name: string,
+  inputs: AbiParameter[] = []
+): string {
+  return `${name}(${inputs.map(canonicalType).join(',')})`;
+}
+
+/**
+ * Compute the 4-byte selector of a canonical signature
+ */
+export function computeSelector(canonicalSignature: string): string {
+  return `0x${keccak256Hex(canonicalSignature).slice(0, 8)}`;
+}
+
+/**
+ * Convert an address to its EIP-55 checksummed form
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = keccak256Hex(lower);
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    const char = lower[i] ?? '';
+    checksummed +=
+      parseInt(hash[i] ?? '0', 16) >= 8 ? char.toUpperCase() : char;
+  }
+  return checksummed;
+}
+
+/**
+ * Read a 32-byte word at the given hex offset
+ */
+function readWord(body: string, offset: number): bigint {
+  const word = body.slice(offset, offset + WORD_SIZE);
+  if (word.length !== WORD_SIZE) {
+    throw new Error('ABI data is too short');
+  }
+  return BigInt(`0x${word}`);
+}
+
+/**
+ * Read a word that is used as an offset or length and bound it to the data
+ */
+function readSize(body: string, offset: number): number {
+  const size = readWord(body, offset);
+  if (size > BigInt(body.length)) {
+    throw new Error('ABI offset or length is out of bounds');
+  }
+  return Number(size);
+}
+
+/**
+ * Check if a parameter is dynamically sized
+ */
+function isDynamic(param: AbiParameter): boolean {
+  if (param.type === 'string' || param.type === 'bytes') {
+    return true;
+  }
+
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    return array[2] === '' || isDynamic({ ...param, type: array[1] ?? '' });
+  }
+
+  if (param.type === 'tuple') {
+    return (param.components ?? []).some(isDynamic);
+  }
+
+  return false;
+}
+
+/**
+ * Size in hex characters that a parameter occupies in the head section
+ */
+function headSize(param: AbiParameter): number {
+  if (isDynamic(param)) {
+    return WORD_SIZE;
+  }
+
+  const array = param.type.match(/^(.*)\[(\d+)\]$/);
+  if (array) {
+    return Number(array[2]) * headSize({ ...param, type: array[1] ?? '' });
+  }
+
+  if (param.type === 'tuple') {
+    return (param.components ?? []).reduce((sum, c) => sum + headSize(c), 0);
+  }
+
+  return WORD_SIZE;
+}
+
+/**
+ * Decode a head/tail encoded sequence of parameters starting at `base`
+ */
+function decodeSequence(
+  params: AbiParameter[],
+  body: string,
+  base: number
+): AbiValue[] {
+  let offset = base;
+  return params.map(param => {
+    const position = isDynamic(param)
+      ? base + readSize(body, offset) * 2
+      : offset;
+    offset += headSize(param);
+    return decodeValue(param, body, position);
+  });
+}
+
+/**
+ * Decode a single value located at the given hex offset
+ */
+function decodeValue(
+  param: AbiParameter,
+  body: string,
+  position: number
+): AbiValue {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    const child = { ...param, type: array[1] ?? '' };
+    if (array[2] === '') {
+      const length = readSize(body, position);
+      return decodeSequence(
+        new Array<AbiParameter>(length).fill(child),
+        body,
+        position + WORD_SIZE
+      );
+    }
+    return decodeSequence(
+      new Array<AbiParameter>(Number(array[2])).fill(child),
+      body,
+      position
+    );
+  }
+
+  if (param.type === 'tuple') {
+    return decodeSequence(param.components ?? [], body, position);
+  }
+
+  if (param.type === 'string' || param.type === 'bytes') {
+    const length = readSize(body, position);
+    const start = position + WORD_SIZE;
+    const hex = body.slice(start, start + length * 2);
+    if (hex.length !== length * 2) {
+      throw new Error('ABI data is too short');
+    }
+    return param.type === 'bytes' ? `0x${hex}` : decodeUtf8(hex);
+  }
+
+  const word = readWord(body, position);
+
+  if (param.type === 'address') {
+    return toChecksumAddress(word.toString(16).padStart(40, '0').slice(-40));
+  }
+
+  if (param.type === 'bool') {
+    return word !== 0n;
+  }
+
+  const integer = param.type.match(/^(u?)int(\d*)$/);
+  if (integer) {
+    const bits = BigInt(integer[2] || 256);
+    if (integer[1] === 'u' || word < 1n << (bits - 1n)) {
+      return word.toString();
+    }
+    return (word - (1n << 256n)).toString();
+  }
+
+  const fixedBytes = param.type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    const size = Number(fixedBytes[1]) * 2;
+    return `0x${body.slice(position, position + size)}`;
+  }
+
+  throw new Error(`Unsupported ABI type: '${param.type}'`);
+}
+
+/**
+ * Decode UTF-8 text from hex
+ */
+function decodeUtf8(hex: string): string {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * Decode ABI-encoded parameters
+ *
+ * Integers are returned as decimal strings, addresses as checksummed hex,
+ * bytes as hex strings, and arrays and tuples as nested arrays.
+ *
+ * @param params - Parameter types to decode
+ * @param data - Hex encoded data without selector (with or without `0x`)
+ * @returns The decoded values, or null when the data is malformed
+ */
+export function decodeAbiParameters(
+  params: AbiParameter[],
+  data: string
+): AbiValue[] | null {
+  try {
+    return decodeSequence(params, data.replace(/^0x/, ''), 0);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Algorand error decoding utilities
+ *
+ * This module parses the rejection messages of `algod`
+ * (`TransactionPool.Remember: transaction <txid>: logic eval error: ...`) in
+ * algod responses and algosdk errors, and decodes them with the built-in
+ * catalog. The transaction id, application id, program counter and failing
+ * opcode of TEAL errors, and the accounts, assets and amounts of ledger
+ * errors (overspend, minimum balance, asset opt-in) are extracted as message
+ * parameters.
+ */
+
+import { AlgorandErrorTable, DecodedChainError } from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as algorandErrors from '../errors/algorand-errors.json';
+
+/**
+ * Built-in Algorand error catalog
+ */
+export const ALGORAND_ERROR_TABLE = algorandErrors as AlgorandErrorTable;
+
+/**
+ * Rejection parsed from an `algod` error message
+ */
+export interface AlgodRejection {
+  /** Name of the rejection in the catalog (e.g. `overspend`) */
+  name: string;
+  /** Values parsed from the message, keyed by template parameter */
+  params: Record<string, string | number>;
+}
+
+/**
+ * Patterns of the rejections, most specific first
+ *
+ * Ledger errors come before TEAL errors, since the failing inner
+ * transaction of an application call is reported inside its logic error.
+ */
+const REJECTION_PATTERNS: ReadonlyArray<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'overspend',
+    pattern:
+      /overspend \(account (?<account>\w+), data \{.*?MicroAlgos:\{Raw:(?<balance>\d+)\}.*?\}, tried to spend \{(?<amount>\d+)\}\)/s,
+  },
+  {
+    name: 'belowMinBalance',
+    pattern:
+      /account (?<account>\w+) balance (?<balance>\d+) below min (?<minBalance>\d+)(?: \((?<assets>\d+) assets\))?/,
+  },
+  {
+    name: 'assetNotOptedIn',
+    pattern: /asset (?<assetId>\d+) missing from (?<account>\w+)/,
+  },
+  {
+    name: 'appNotOptedIn',
+    pattern:
+      /(?:address|account) (?<account>\w+) has not opted in to app(?:lication)? (?<appId>\d+)/,
+  },
+  {
+    name: 'assetNotFound',
+    pattern: /asset (?<assetId>\d+) does not exist or has been deleted/,
+  },
+  {
+    name: 'assetFrozen',
+    pattern: /asset (?<assetId>\d+) frozen in (?<account>\w+)/,
+  },
+  {
+    name: 'txnDead',
+    pattern:
+      /txn dead: round (?<round>\d+) outside of (?<firstValid>\d+)--(?<lastValid>\d+)/,
+  },
+  { name: 'alreadyInLedger', pattern: /transaction already in ledger/ },
+  { name: 'assertFailed', pattern: /assert failed/ },
+  { name: 'errOpcode', pattern: /err opcode executed/ },
+  { name: 'negativeResult', pattern: /would result negative/ },
+  { name: 'overflow', pattern: /overflowed/ },
+  { name: 'budgetExceeded', pattern: /cost budget exceeded/ },
+  {
+    name: 'invalidReference',
+    pattern: /(?:invalid|unavailable) (?:Account|Asset|App|Box) reference/,
+  },
+  { name: 'rejectedByApprovalProgram', pattern: /rejected by ApprovalProgram/ },
+  { name: 'rejectedByLogicSig', pattern: /rejected by logic/ },
+  { name: 'logicEvalError', pattern: /logic eval error/ },
+];
+
+/**
+ * Properties that commonly carry rejection messages or nested errors
+ */
+const MESSAGE_KEYS = [
+  'message',
+  'response',
+  'body',
+  'text',
+  'data',
+  'error',
+  'cause',
+] as const;
+
+/**
+ * Maximum nesting depth searched for the rejection message
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a parsed value to a parameter, numbers as numbers
+ */
+function toParam(value: string): string | number {
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Get the failing opcode from the disassembly in the `opcodes=` detail,
+ * which lists the opcodes up to the failing one, separated by newlines or
+ * semicolons
+ */
+function parseFailingOpcode(message: string): string | undefined {
+  const opcodes = message.match(/\bopcodes=([\s\S]*)$/)?.[1];
+  const entries = opcodes
+    ?.split(/\n|\\n|;/)
+    .map(entry => entry.replace(/\/\/.*$/, '').trim())
+    .filter(entry => entry.length > 0);
+  return entries?.[entries.length - 1];
+}
+
+/**
+ * Parse the rejection of an `algod` error message
+ *
+ * @param message - The error message
+ * @returns The rejection, or null when the message is not a known rejection
+ *
+ * @example
+ * ```typescript
+ * parseAlgodRejection(
+ *   'TransactionPool.Remember: transaction ABC...: asset 31566704 missing from XYZ...'
+ * );
+ * // { name: 'assetNotOptedIn', params: { txId: 'ABC...', assetId: 31566704, account: 'XYZ...' } }
+ * ```
+ */
+export function parseAlgodRejection(message: string): AlgodRejection | null {
+  let name: string | undefined;
+  let groups: Record<string, string | undefined> = {};
+  for (const candidate of REJECTION_PATTERNS) {
+    const match = message.match(candidate.pattern);
+    if (match) {
+      name = candidate.name;
+      groups = match.groups ?? {};
+      break;
+    }
+  }
+  if (!name) {
+    return null;
+  }
+
+  const txId = message.match(/\btransaction ([A-Z2-7]{52})\b/)?.[1];
+  const appId = message.match(/\bapp=(\d+)/)?.[1];
+  const pc = message.match(/\bpc=(\d+)/)?.[1];
+  const opcode = parseFailingOpcode(message);
+  const logicError = message
+    .match(/logic eval error: ([\s\S]*?)(?:\. Details:|$)/)?.[1]
+    ?.replace(/ pc=\d+$/, '');
+
+  const params: Record<string, string | number> = {
+    ...(txId && { txId }),
+    ...(appId && { appId: Number(appId) }),
+    ...(pc && { pc: Number(pc) }),
+    ...(opcode && { opcode }),
+    ...(logicError && { logicError }),
+  };
+  Object.entries(groups).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params[key] = toParam(value);
+    }
+  });
+  return { name, params };
+}
+
+/**
+ * Find the rejection of a failed Algorand transaction
+ *
+ * Rejection messages are parsed from the error itself (a string) and its
+ * `message`, `response`, `body`, `text`, `data`, `error` and `cause`
+ * properties, which covers algod JSON responses and algosdk errors.
+ *
+ * @param error - The error to inspect
+ * @returns The rejection, or null when none was found
+ */
+export function findAlgodRejection(error: unknown): AlgodRejection | null {
+  return searchRejection(error, 0, new Set());
+}
+
+function searchRejection(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): AlgodRejection | null {
+  if (depth > MAX_SEARCH_DEPTH) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return parseAlgodRejection(value);
+  }
+
+  if (!isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  for (const key of MESSAGE_KEYS) {
+    const found = searchRejection(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode the rejection of a failed Algorand transaction
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no rejection was recognised
+ */
+export function decodeAlgorandError(error: unknown): DecodedChainError | null {
+  const rejection = findAlgodRejection(error);
+  const variant = rejection && ALGORAND_ERROR_TABLE.rejections[rejection.name];
+  if (!rejection || !variant) {
+    return null;
+  }
+
+  const { code, ...entry } = variant;
+  return createDecodedError(
+    'algorand',
+    rejection.name,
+    code ?? `ALGORAND_${toConstantCase(rejection.name)}`,
+    entry,
+    rejection.params
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Cosmos SDK error decoding utilities
+ *
+ * This module locates the ABCI `(codespace, code)` pair and raw log of failed
+ * Cosmos SDK transactions in `tx_response` objects, CosmJS broadcast errors
+ * and their messages, and decodes them with the built-in codespace tables.
+ * Expected account sequences, gas usage and CosmWasm contract errors are
+ * extracted from the raw log.
+ */
+
+import {
+  CosmosErrorTable,
+  CosmosErrorVariant,
+  DecodedChainError,
+} from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as cosmosErrors from '../errors/cosmos-errors.json';
+
+/**
+ * Built-in Cosmos SDK error tables
+ */
+export const COSMOS_ERROR_TABLE = cosmosErrors as CosmosErrorTable;
+
+/**
+ * ABCI error of a failed Cosmos transaction
+ */
+export interface CosmosErrorInfo {
+  /** ABCI error code */
+  code: number;
+  /** Module that registered the code (e.g. `sdk`, `wasm`) */
+  codespace?: string;
+  /** Raw log of the failed transaction */
+  log?: string;
+  /** Hash of the failed transaction */
+  txHash?: string;
+}
+
+/**
+ * Properties that commonly carry transaction responses or nested errors
+ */
+const RESPONSE_KEYS = [
+  'tx_response',
+  'txResponse',
+  'response',
+  'result',
+  'error',
+  'cause',
+  'data',
+] as const;
+
+/**
+ * Maximum nesting depth searched for the ABCI error
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the ABCI error of a failed Cosmos transaction
+ *
+ * Objects with a non-zero `code` and a `codespace` or raw log
+ * (`raw_log`, `rawLog`, `log`) are recognised, such as `tx_response` and
+ * CosmJS `BroadcastTxError`. CosmJS error messages
+ * (`... Code: 5; Raw log: ...`, `... code 32 (codespace: sdk). Log: ...`)
+ * are parsed as well.
+ *
+ * @param error - The error to inspect
+ * @returns The ABCI error, or null when none was found
+ */
+export function findCosmosErrorInfo(error: unknown): CosmosErrorInfo | null {
+  return searchErrorInfo(error, 0, new Set());
+}
+
+function searchErrorInfo(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): CosmosErrorInfo | null {
+  if (depth > MAX_SEARCH_DEPTH) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return parseErrorInfoMessage(value);
+  }
+
+  if (!isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  const { code, codespace } = value;
+  const log = [value.raw_log, value.rawLog, value.log].find(
+    (candidate): candidate is string => typeof candidate === 'string'
+  );
+  if (
+    typeof code === 'number' &&
+    code > 0 &&
+    (typeof codespace === 'string' || log !== undefined)
+  ) {
+    const txHash = [value.txhash, value.transactionHash].find(
+      (candidate): candidate is string => typeof candidate === 'string'
+    );
+    return {
+      code,
+      ...(typeof codespace === 'string' && codespace && { codespace }),
+      ...(log && { log }),
+      ...(txHash && { txHash }),
+    };
+  }
+
+  for (const key of RESPONSE_KEYS) {
+    const found = searchErrorInfo(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+
+  return typeof value.message === 'string'
+    ? parseErrorInfoMessage(value.message)
+    : null;
+}
+
+/**
+ * Parse the ABCI error from a CosmJS error message
+ */
+function parseErrorInfoMessage(message: string): CosmosErrorInfo | null {
+  const broadcast = message.match(
+    /code (\d+) \(codespace: ([\w-]+)\)\. Log: ([\s\S]*)$/
+  );
+  if (broadcast?.[2]) {
+    return {
+      code: Number(broadcast[1]),
+      codespace: broadcast[2],
+      ...(broadcast[3] && { log: broadcast[3] }),
+    };
+  }
+
+  const delivered = message.match(/Code: (\d+); Raw log: ([\s\S]*)$/);
+  if (delivered?.[2]) {
+    return { code: Number(delivered[1]), log: delivered[2] };
+  }
+
+  return null;
+}
+
+/**
+ * Find the table entry of an ABCI error
+ *
+ * Without a codespace, the codespace is inferred from the description of
+ * the error, which the SDK appends to the raw log.
+ */
+function resolveCosmosError({
+  code,
+  codespace,
+  log = '',
+}: CosmosErrorInfo): {
+  codespace: string;
+  variant?: CosmosErrorVariant;
+} | null {
+  const { codespaces } = COSMOS_ERROR_TABLE;
+  if (codespace) {
+    return { codespace, variant: codespaces[codespace]?.[String(code)] };
+  }
+
+  let best: { codespace: string; variant: CosmosErrorVariant } | null = null;
+  for (const [candidate, errors] of Object.entries(codespaces)) {
+    const variant = errors[String(code)];
+    if (
+      variant &&
+      log.trimEnd().endsWith(variant.description) &&
+      variant.description.length > (best?.variant.description.length ?? 0)
+    ) {
+      best = { codespace: candidate, variant };
+    }
+  }
+  return best;
+}
+
+/**
+ * Extract decoded values from the raw log of a failed transaction
+ *
+ * @param log - The raw log
+ * @param codespace - Codespace of the error
+ * @returns Message index, expected and actual sequence, gas usage and the
+ * CosmWasm contract error, when present
+ */
+export function parseCosmosRawLog(
+  log: string,
+  codespace?: string
+): Record<string, string | number> {
+  const messageIndex = log.match(/message index: (\d+)/);
+  const sequence = log.match(
+    /account sequence mismatch, expected (\d+), got (\d+)/
+  );
+  const gas = log.match(/gasWanted: (\d+), gasUsed: (\d+)/);
+  const contractError =
+    codespace === 'wasm'
+      ? log
+          .match(
+            /^(?:failed to execute message; message index: \d+: )?([\s\S]+?): (?:execute|instantiate|migrate|query) wasm contract failed$/
+          )?.[1]
+          ?.replace(/^(?:dispatch: submessages: )+/, '')
+          .replace(/^Generic error: /, '')
+      : undefined;
+
+  return {
+    ...(messageIndex && { messageIndex: Number(messageIndex[1]) }),
+    ...(sequence && {
+      expectedSequence: Number(sequence[1]),
+      sequence: Number(sequence[2]),
+    }),
+    ...(gas && { gasWanted: Number(gas[1]), gasUsed: Number(gas[2]) }),
+    ...(contractError && { contractError }),
+  };
+}
+
+/**
+ * Decode the ABCI error of a failed Cosmos transaction
+ *
+ * Codes missing from the built-in tables are still reported, without a
+ * message, when their codespace is known.
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no ABCI error was recognised
+ */
+export function decodeCosmosError(error: unknown): DecodedChainError | null {
+  const info = findCosmosErrorInfo(error);
+  const resolved = info && resolveCosmosError(info);
+  if (!info || !resolved) {
+    return null;
+  }
+
+  const { codespace, variant } = resolved;
+  const params = {
+    codespace,
+    errorCode: info.code,
+    ...(info.txHash && { txHash: info.txHash }),
+    ...parseCosmosRawLog(info.log ?? '', codespace),
+  };
+
+  if (!variant) {
+    return {
+      ecosystem: 'cosmos',
+      name: `${codespace}/${info.code}`,
+      code: `COSMOS_${toConstantCase(codespace)}_${info.code}`,
+      category: 'transaction',
+      retryable: false,
+      params,
+    };
+  }
+
+  const { name, code, description, ...rest } = variant;
+  return createDecodedError('cosmos', name, code, rest, params);
+}
@@ -0,0 +1,72 @@
+/**
+ * Decoded chain error utilities
+ *
+ * Helpers shared by the decoders of non-EVM ecosystems to turn entries of
+ * their built-in error tables into `DecodedChainError` results.
+ */
+
+import {
+  BlockchainEcosystem,
+  ChainErrorVariant,
+  DecodedChainError,
+} from '../types';
+
+/**
+ * Convert a variant name to a code segment (`AccountInUse` → `ACCOUNT_IN_USE`)
+ */
+export function toConstantCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toUpperCase();
+}
+
+/**
+ * Check if every `{{param}}` placeholder of a template has a value
+ */
+function hasParams(
+  template: string,
+  params: Record<string, string | number>
+): boolean {
+  return Array.from(template.matchAll(/\{\{(\w+)\}\}/g)).every(
+    ([, key]) => key !== undefined && params[key] !== undefined
+  );
+}
+
+/**
+ * Create a decoded error from a built-in table entry
+ *
+ * The entry's `detailedMessage` is used when all of its parameters were
+ * decoded, otherwise its `message`. Entries that do not declare
+ * `retryable` are not retryable, so ecosystem-wide adapter rules do not
+ * apply to them.
+ *
+ * @param ecosystem - Ecosystem that produced the error
+ * @param name - Name of the error variant
+ * @param code - Stable error code
+ * @param variant - The table entry
+ * @param params - Decoded values used in the message templates
+ * @returns The decoded error
+ */
+export function createDecodedError(
+  ecosystem: BlockchainEcosystem,
+  name: string,
+  code: string,
+  variant: ChainErrorVariant,
+  params: Record<string, string | number>
+): DecodedChainError {
+  const { detailedMessage, message, ...rule } = variant;
+  return {
+    ecosystem,
+    name,
+    code,
+    ...rule,
+    retryable: variant.retryable ?? false,
+    message:
+      detailedMessage && hasParams(detailedMessage, params)
+        ? detailedMessage
+        : message,
+    params,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Keccak-256 hashing
+ *
+ * This module provides a dependency-free Keccak-256 implementation (the
+ * original Keccak padding used by Ethereum, not NIST SHA3-256). It is used
+ * to derive 4-byte error selectors and EIP-55 address checksums and is not
+ * intended for hashing large payloads.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Rate of Keccak-256 in bytes (1600 - 2 * 256 bits)
+ */
+const RATE = 136;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+];
+
+const ROTATION_OFFSETS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+function rotateLeft(value: bigint, shift: number): bigint {
+  if (shift === 0) {
+    return value;
+  }
+  const bits = BigInt(shift);
+  return ((value << bits) | (value >> (64n - bits))) & MASK_64;
+}
+
+function lane(state: bigint[], index: number): bigint {
+  return state[index] ?? 0n;
+}
+
+function keccakF(state: bigint[]): void {
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // Theta
+    const columns: bigint[] = [];
+    for (let x = 0; x < 5; x++) {
+      columns[x] =
+        lane(state, x) ^
+        lane(state, x + 5) ^
+        lane(state, x + 10) ^
+        lane(state, x + 15) ^
+        lane(state, x + 20);
+    }
+    for (let x = 0; x < 5; x++) {
+      const d =
+        lane(columns, (x + 4) % 5) ^ rotateLeft(lane(columns, (x + 1) % 5), 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] = lane(state, x + y) ^ d;
+      }
+    }
+
+    // Rho and Pi
+    const permuted: bigint[] = [];
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        permuted[y + ((2 * x + 3 * y) % 5) * 5] = rotateLeft(
+          lane(state, x + y * 5),
+          ROTATION_OFFSETS[x + y * 5] ?? 0
+        );
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] =
+          lane(permuted, x + y) ^
+          (~lane(permuted, ((x + 1) % 5) + y) &
+            MASK_64 &
+            lane(permuted, ((x + 2) % 5) + y));
+      }
+    }
+
+    // Iota
+    state[0] = lane(state, 0) ^ roundConstant;
+  }
+}
+
+/**
+ * Compute the Keccak-256 digest of the given bytes
+ */
+export function keccak256(input: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.floor(input.length / RATE) * RATE + RATE);
+  padded.set(input);
+  padded[input.length] = 0x01;
+  padded[padded.length - 1] = (padded[padded.length - 1] ?? 0) | 0x80;
+
+  const state: bigint[] = new Array<bigint>(25).fill(0n);
+  for (let block = 0; block < padded.length; block += RATE) {
+    for (let i = 0; i < RATE / 8; i++) {
+      let value = 0n;
+      for (let b = 7; b >= 0; b--) {
+        value = (value << 8n) | BigInt(padded[block + i * 8 + b] ?? 0);
+      }
+      state[i] = lane(state, i) ^ value;
+    }
+    keccakF(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    output[i] = Number((lane(state, i >> 3) >> BigInt((i % 8) * 8)) & 0xffn);
+  }
+  return output;
+}
+
+/**
+ * Compute the hex encoded Keccak-256 digest of a UTF-8 string
+ */
+export function keccak256Hex(text: string): string {
+  const digest = keccak256(new TextEncoder().encode(text));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * NEAR error decoding utilities
+ *
+ * This module locates the `TxExecutionError` of failed NEAR transactions in
+ * execution outcomes (`status.Failure`), JSON-RPC errors
+ * (`data.TxExecutionError`) and near-api-js errors, walks its
+ * `InvalidTxError` or `ActionError` tree down to the failing variant and
+ * decodes it with the built-in tables. The failing action index and the
+ * fields of the variants (account ids, public keys, nonces, amounts) are
+ * extracted as message parameters.
+ */
+
+import { DecodedChainError, NearErrorTable, NearErrorVariant } from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as nearErrors from '../errors/near-errors.json';
+
+/**
+ * Built-in NEAR error tables
+ */
+export const NEAR_ERROR_TABLE = nearErrors as NearErrorTable;
+
+/**
+ * Variant of the `TxExecutionError` tree
+ */
+export interface NearErrorStep {
+  /** Enum of the variant (e.g. `ActionError`, `HostError`) */
+  group: string;
+  /** Variant name (e.g. `AccountAlreadyExists`) */
+  variant: string;
+}
+
+/**
+ * Failing variants and fields of a `TxExecutionError`
+ */
+export interface NearErrorDetails {
+  /** Variants from the root of the tree to the failing variant */
+  steps: NearErrorStep[];
+  /** Action index and variant fields, keyed in camel case */
+  params: Record<string, string | number>;
+}
+
+/**
+ * Properties that commonly carry the execution error or nested errors
+ */
+const EXECUTION_ERROR_KEYS = [
+  'status',
+  'Failure',
+  'TxExecutionError',
+  'data',
+  'error',
+  'cause',
+  'result',
+] as const;
+
+/**
+ * Maximum nesting depth searched for the execution error
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a field name to a parameter name (`account_id` → `accountId`)
+ */
+function toCamelCase(name: string): string {
+  const camel = name.replace(/_([a-z\d])/g, (_, char: string) =>
+    char.toUpperCase()
+  );
+  return camel.charAt(0).toLowerCase() + camel.slice(1);
+}
+
+/**
+ * Find the `TxExecutionError` of a failed transaction
+ *
+ * Objects with an `ActionError` or `InvalidTxError` property are
+ * recognised. They are searched in the error itself and its `status`,
+ * `Failure`, `TxExecutionError`, `data`, `error`, `cause` and `result`
+ * properties.
+ *
+ * @param error - The error to inspect
+ * @returns The execution error, or null when none was found
+ */
+export function findNearExecutionError(
+  error: unknown
+): Record<string, unknown> | null {
+  return searchExecutionError(error, 0, new Set());
+}
+
+function searchExecutionError(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): Record<string, unknown> | null {
+  if (depth > MAX_SEARCH_DEPTH || !isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  if (isRecord(value.ActionError) || value.InvalidTxError !== undefined) {
+    return value;
+  }
+
+  for (const key of EXECUTION_ERROR_KEYS) {
+    const found = searchExecutionError(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk an enum value (`'Expired'`, `{ InvalidNonce: { ... } }`) of a group
+ */
+function walkVariant(
+  group: string,
+  value: unknown,
+  details: NearErrorDetails
+): void {
+  let variant: string | undefined;
+  let payload: unknown;
+  if (typeof value === 'string') {
+    variant = value;
+  } else if (isRecord(value) && Object.keys(value).length === 1) {
+    variant = Object.keys(value)[0];
+    payload = variant !== undefined ? value[variant] : undefined;
+  }
+
+  if (!variant) {
+    return;
+  }
+  details.steps.push({ group, variant });
+
+  // Variants wrapping another enum, like `FunctionCallError`
+  if (Object.hasOwn(NEAR_ERROR_TABLE.groups, variant)) {
+    walkVariant(variant, payload, details);
+    return;
+  }
+
+  if (typeof payload === 'string' || typeof payload === 'number') {
+    details.params[toCamelCase(variant)] = payload;
+  } else if (isRecord(payload)) {
+    Object.entries(payload).forEach(([field, fieldValue]) => {
+      if (typeof fieldValue === 'string' || typeof fieldValue === 'number') {
+        details.params[toCamelCase(field)] = fieldValue;
+      }
+    });
+  }
+}
+
+/**
+ * Parse the failing variants of a `TxExecutionError`
+ *
+ * @param executionError - The execution error
+ * @returns The failing variants and their fields
+ */
+export function parseNearExecutionError(
+  executionError: Record<string, unknown>
+): NearErrorDetails {
+  const details: NearErrorDetails = { steps: [], params: {} };
+  const { ActionError: actionError, InvalidTxError: invalidTxError } =
+    executionError;
+
+  if (isRecord(actionError)) {
+    if (typeof actionError.index === 'number') {
+      details.params.actionIndex = actionError.index;
+    }
+    walkVariant('ActionError', actionError.kind, details);
+  } else {
+    walkVariant('InvalidTxError', invalidTxError, details);
+  }
+  return details;
+}
+
+/**
+ * Find the variant of a near-api-js error, which only carries its name in
+ * `type`
+ */
+function parseTypedError(error: unknown): NearErrorDetails | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+  const { type } = error as Error & { type?: unknown };
+  if (typeof type !== 'string') {
+    return null;
+  }
+  const group = Object.entries(NEAR_ERROR_TABLE.groups).find(([, variants]) =>
+    Object.hasOwn(variants, type)
+  )?.[0];
+  return group ? { steps: [{ group, variant: type }], params: {} } : null;
+}
+
+/**
+ * Decode the `TxExecutionError` of a failed NEAR transaction
+ *
+ * The deepest variant of the tree found in the built-in tables is decoded.
+ * Variants missing from the tables are still reported, without a message.
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no execution error was recognised
+ */
+export function decodeNearError(error: unknown): DecodedChainError | null {
+  const executionError = findNearExecutionError(error);
+  const details = executionError
+    ? parseNearExecutionError(executionError)
+    : parseTypedError(error);
+  const last = details?.steps[details.steps.length - 1];
+  if (!details || !last) {
+    return null;
+  }
+
+  let match: (NearErrorStep & { entry: NearErrorVariant }) | undefined;
+  for (const step of [...details.steps].reverse()) {
+    const entry = NEAR_ERROR_TABLE.groups[step.group]?.[step.variant];
+    if (entry) {
+      match = { ...step, entry };
+      break;
+    }
+  }
+
+  if (!match) {
+    return {
+      ecosystem: 'near',
+      name: `${last.group}.${last.variant}`,
+      code: `NEAR_${toConstantCase(last.variant)}`,
+      category: 'transaction',
+      retryable: false,
+      params: details.params,
+    };
+  }
+
+  const { code, ...entry } = match.entry;
+  return createDecodedError(
+    'near',
+    `${match.group}.${match.variant}`,
+    code ?? `NEAR_${toConstantCase(match.variant)}`,
+    entry,
+    details.params
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Error pattern matching utilities
+ *
+ * This module matches error messages against error mappings using the
+ * mapping's match mode (exact, contains, startsWith, tokens or regex) and
+ * scores every hit so the most specific mapping wins instead of the first
+ * one in the list. Wrapped provider messages such as
+ * `execution reverted: ERC20: transfer amount exceeds balance` can then be
+ * matched by `contains` mappings without shadowing exact matches.
+ */
+
+import { ErrorMapping, ErrorMatchMode } from '../types';
+
+/**
+ * Precedence of each match mode; stricter modes win ties on priority
+ */
+const MATCH_MODE_PRECEDENCE: Record<ErrorMatchMode, number> = {
+  exact: 4,
+  regex: 3,
+  startsWith: 2,
+  contains: 1,
+  tokens: 0,
+};
+
+/**
+ * Supported match modes
+ */
+export const MATCH_MODES = Object.keys(
+  MATCH_MODE_PRECEDENCE
+) as ErrorMatchMode[];
+
+/**
+ * Resolve the effective match mode of a mapping
+ */
+export function getMatchMode(mapping: ErrorMapping): ErrorMatchMode {
+  return mapping.matchMode ?? (mapping.isRegex ? 'regex' : 'exact');
+}
+
+/**
+ * Split text into lowercase word tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(token => token !== '');
+}
+
+/**
+ * Compute how much of the message a hit covers, in the range [0, 1]
+ */
+function coverage(matched: number, total: number): number {
+  return total > 0 ? Math.min(matched / total, 1) : 1;
+}
+
+/**
+ * Score how well an error message matches a mapping
+ *
+ * The integer part of the score is the match mode precedence and the
+ * fractional part is the share of the message covered by the pattern, so
+ * longer and stricter patterns score higher.
+ *
+ * @param errorMessage - The error message to match
+ * @param mapping - The mapping to match against
+ * @returns The match score, or null if the mapping does not match
+ */
+export function scoreMatch(
+  errorMessage: string,
+  mapping: ErrorMapping
+): number | null {
+  const mode = getMatchMode(mapping);
+  const message = errorMessage.toLowerCase();
+  const pattern = mapping.pattern.toLowerCase();
+  const precedence = MATCH_MODE_PRECEDENCE[mode];
+
+  // Leave a gap below 1 so coverage never reaches the next precedence level
+  const score = (covered: number) => precedence + covered * 0.99;
+
+  if (pattern === '') {
+    return null;
+  }
+
+  switch (mode) {
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(mapping.pattern, 'i');
+      } catch {
+        // If regex is invalid, fall back to exact match
+        return message === pattern ? score(1) : null;
+      }
+      const match = regex.exec(errorMessage);
+      return match ? score(coverage(match[0].length, message.length)) : null;
+    }
+
+    case 'contains':
+      return message.includes(pattern)
+        ? score(coverage(pattern.length, message.length))
+        : null;
+
+    case 'startsWith':
+      return message.startsWith(pattern)
+        ? score(coverage(pattern.length, message.length))
+        : null;
+
+    case 'tokens': {
+      const patternTokens = tokenize(pattern);
+      const messageTokens = new Set(tokenize(message));
+      if (
+        patternTokens.length === 0 ||
+        !patternTokens.every(token => messageTokens.has(token))
+      ) {
+        return null;
+      }
+      return score(coverage(patternTokens.length, messageTokens.size));
+    }
+
+    case 'exact':
+    default:
+      return message === pattern ? score(1) : null;
+  }
+}
+
+/**
+ * Check if an error message matches a mapping
+ */
+export function matchesPattern(
+  errorMessage: string,
+  mapping: ErrorMapping
+): boolean {
+  return scoreMatch(errorMessage, mapping) !== null;
+}
+
+/**
+ * Find the best matching mapping for an error message
+ *
+ * Mappings are ranked by priority, then by match score. Earlier mappings
+ * win exact ties, so custom mappings placed first keep precedence.
+ *
+ * @param errorMessage - The error message to match
+ * @param mappings - The candidate mappings
+ * @returns The best matching mapping or null if none match
+ */
+export function findBestMatch(
+  errorMessage: string,
+  mappings: ErrorMapping[]
+): ErrorMapping | null {
+  let best: ErrorMapping | null = null;
+  let bestPriority = -Infinity;
+  let bestScore = -Infinity;
+
+  for (const mapping of mappings) {
+    const score = scoreMatch(errorMessage, mapping);
+    if (score === null) {
+      continue;
+    }
+
+    const priority = mapping.priority ?? 0;
+    if (
+      priority > bestPriority ||
+      (priority === bestPriority && score > bestScore)
+    ) {
+      best = mapping;
+      bestPriority = priority;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
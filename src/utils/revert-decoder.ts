@@ -0,0 +1,242 @@
+/**
+ * Solidity revert data decoding utilities
+ *
+ * This module locates ABI-encoded revert data inside the error shapes produced
+ * by ethers, viem, web3.js and raw JSON-RPC providers, and decodes the two
+ * built-in Solidity revert payloads, `Error(string)` and `Panic(uint256)`, as
+ * well as custom errors whose definition is known.
+ */
+
+import { AbiValue, CustomErrorDefinition, DecodedRevert } from '../types';
+import { decodeAbiParameters } from './abi-decoder';
+
+/**
+ * Selector of the built-in `Error(string)` revert payload
+ */
+export const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/**
+ * Selector of the built-in `Panic(uint256)` revert payload
+ */
+export const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Properties that commonly carry revert data or nested provider errors
+ */
+const REVERT_DATA_KEYS = [
+  'data',
+  'raw',
+  'revert',
+  'error',
+  'info',
+  'cause',
+  'innerError',
+  'originalError',
+  'body',
+] as const;
+
+/**
+ * Maximum nesting depth searched for revert data
+ */
+const MAX_SEARCH_DEPTH = 6;
+
+/**
+ * Check if a value looks like ABI-encoded revert data (selector + words)
+ */
+export function isRevertData(value: unknown): boolean {
+  return (
+    typeof value === 'string' &&
+    /^0x[0-9a-fA-F]{8}(?:[0-9a-fA-F]{2})*$/.test(value)
+  );
+}
+
+/**
+ * Find revert data in an error object
+ *
+ * Walks the properties used by ethers (`data`, `info.error.data`, `error.body`),
+ * viem (`cause.data`, `cause.raw`) and web3.js (`innerError.data`) and returns
+ * the first hex string that looks like ABI-encoded revert data. Built-in
+ * `Error(string)` and `Panic(uint256)` payloads embedded in message strings are
+ * also recognised.
+ */
+export function findRevertData(error: unknown): string | null {
+  return searchRevertData(error, 0, new Set());
+}
+
+function searchRevertData(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): string | null {
+  if (depth > MAX_SEARCH_DEPTH || value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    if (isRevertData(value)) {
+      return value;
+    }
+
+    // Some providers return the JSON-RPC response body as a string
+    if (value.startsWith('{')) {
+      try {
+        return searchRevertData(JSON.parse(value), depth + 1, visited);
+      } catch {
+        return null;
+      }
+    }
+
+    const embedded = value.match(/0x(?:08c379a0|4e487b71)(?:[0-9a-fA-F]{2})+/);
+    return embedded ? embedded[0] : null;
+  }
+
+  if (typeof value !== 'object' || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  const errorObj = value as Record<string, unknown>;
+  for (const key of REVERT_DATA_KEYS) {
+    const found = searchRevertData(errorObj[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+
+  if (typeof errorObj.message === 'string') {
+    return searchRevertData(errorObj.message, depth + 1, visited);
+  }
+
+  return null;
+}
+
+/**
+ * Find the address of the contract that reverted
+ *
+ * Looks at viem's `contractAddress` and the `to` field of the transaction or
+ * call request attached by ethers and web3.js, including nested causes.
+ */
+export function findContractAddress(error: unknown): string | undefined {
+  return searchContractAddress(error, 0, new Set());
+}
+
+function searchContractAddress(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): string | undefined {
+  if (
+    depth > MAX_SEARCH_DEPTH ||
+    !value ||
+    typeof value !== 'object' ||
+    visited.has(value)
+  ) {
+    return undefined;
+  }
+  visited.add(value);
+
+  const errorObj = value as Record<string, unknown>;
+  const candidates = [
+    errorObj.contractAddress,
+    (errorObj.transaction as Record<string, unknown> | undefined)?.to,
+    (errorObj.request as Record<string, unknown> | undefined)?.to,
+  ];
+  const address = candidates.find(
+    (candidate): candidate is string =>
+      typeof candidate === 'string' && /^0x[0-9a-fA-F]{40}$/.test(candidate)
+  );
+  if (address) {
+    return address;
+  }
+
+  for (const key of ['error', 'info', 'cause', 'innerError'] as const) {
+    const found = searchContractAddress(errorObj[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Decode built-in Solidity revert data
+ *
+ * @param data - Hex encoded revert data, including the 4-byte selector
+ * @returns The decoded revert, or null when the payload is not `Error(string)`
+ * or `Panic(uint256)` or is malformed
+ *
+ * @example
+ * ```typescript
+ * decodeRevertData('0x4e487b71' + '11'.padStart(64, '0'));
+ * // { kind: 'panic', selector: '0x4e487b71', panicCode: '0x11', ... }
+ * ```
+ */
+export function decodeRevertData(data: string): DecodedRevert | null {
+  if (!isRevertData(data)) {
+    return null;
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const body = data.slice(10);
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = decodeAbiParameters([{ type: 'string' }], body) ?? [];
+    return typeof reason === 'string'
+      ? { kind: 'error', selector, data, reason }
+      : null;
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    const [code] = decodeAbiParameters([{ type: 'uint256' }], body) ?? [];
+    return typeof code === 'string'
+      ? { kind: 'panic', selector, data, panicCode: formatPanicCode(code) }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Decode custom error revert data against a known error definition
+ *
+ * @param data - Hex encoded revert data, including the 4-byte selector
+ * @param definition - The custom error the selector resolves to
+ * @returns The decoded revert, or null when the selector does not match or
+ * the arguments are malformed
+ */
+export function decodeCustomErrorData(
+  data: string,
+  definition: CustomErrorDefinition
+): DecodedRevert | null {
+  const selector = data.slice(0, 10).toLowerCase();
+  if (!isRevertData(data) || selector !== definition.selector) {
+    return null;
+  }
+
+  const values = decodeAbiParameters(definition.inputs, data.slice(10));
+  if (!values) {
+    return null;
+  }
+
+  const args: Record<string, AbiValue> = {};
+  definition.inputs.forEach((input, index) => {
+    args[input.name || String(index)] = values[index] ?? '';
+  });
+
+  return {
+    kind: 'custom',
+    selector,
+    data,
+    name: definition.name,
+    signature: definition.signature,
+    args,
+  };
+}
+
+/**
+ * Format a panic code the way Solidity documents it (e.g. `0x11`)
+ */
+export function formatPanicCode(code: bigint | string): string {
+  return `0x${BigInt(code).toString(16).padStart(2, '0')}`;
+}
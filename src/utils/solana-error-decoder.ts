@@ -0,0 +1,402 @@
+/**
+ * Solana error decoding utilities
+ *
+ * This module locates the `TransactionError` returned by Solana RPC nodes
+ * (`{ InstructionError: [0, { Custom: 1 }] }`, `'BlockhashNotFound'`, ...)
+ * inside the error shapes produced by @solana/web3.js and raw JSON-RPC
+ * responses, parses program logs and `custom program error: 0x..` messages,
+ * and decodes the built-in transaction and instruction error variants.
+ */
+
+import {
+  DecodedChainError,
+  ChainErrorVariant,
+  SolanaErrorTable,
+  SolanaProgramError,
+} from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as solanaErrors from '../errors/solana-errors.json';
+
+/**
+ * Built-in Solana error tables
+ */
+export const SOLANA_ERROR_TABLE = solanaErrors as SolanaErrorTable;
+
+/**
+ * Details of a Solana error gathered from its payload, logs and message
+ */
+export interface SolanaErrorDetails {
+  /** `TransactionError` variant (e.g. `InstructionError`, `AccountInUse`) */
+  transactionError?: string;
+  /** Builtin `InstructionError` variant (e.g. `InvalidAccountData`) */
+  instructionError?: string;
+  /** Index of the failing instruction */
+  instructionIndex?: number;
+  /** Index of the account named by the error */
+  accountIndex?: number;
+  /** Code of a `Custom` program error */
+  customCode?: number;
+  /** Program that failed, from the program logs */
+  programId?: string;
+  /** Error logged by an Anchor program before failing */
+  programError?: SolanaProgramError;
+}
+
+/**
+ * Properties that commonly carry the transaction error or nested errors
+ */
+const TRANSACTION_ERROR_KEYS = [
+  'err',
+  'error',
+  'data',
+  'value',
+  'cause',
+  'transactionError',
+] as const;
+
+/**
+ * Properties that commonly carry program logs
+ */
+const LOG_KEYS = ['logs', 'transactionLogs'] as const;
+
+/**
+ * Maximum nesting depth searched for the transaction error and logs
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if a name is a `TransactionError` variant
+ */
+function isTransactionErrorName(name: string): boolean {
+  return (
+    name === 'InstructionError' ||
+    Object.hasOwn(SOLANA_ERROR_TABLE.transactionErrors, name)
+  );
+}
+
+/**
+ * Find the `TransactionError` in an error
+ *
+ * Variants without data are plain strings; variants with data are objects
+ * with a single key named after the variant. The error itself and the
+ * properties used by @solana/web3.js (`err`, `value.err`, `data.err`) and
+ * nested errors are searched.
+ */
+export function findSolanaTransactionError(error: unknown): unknown {
+  return searchTransactionError(error, 0, new Set());
+}
+
+function searchTransactionError(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): unknown {
+  if (depth > MAX_SEARCH_DEPTH) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    return isTransactionErrorName(value) ? value : undefined;
+  }
+
+  if (!isRecord(value) || visited.has(value)) {
+    return undefined;
+  }
+  visited.add(value);
+
+  const keys = Object.keys(value);
+  if (keys.length === 1 && keys[0] && isTransactionErrorName(keys[0])) {
+    return value;
+  }
+
+  for (const key of TRANSACTION_ERROR_KEYS) {
+    const found = searchTransactionError(value[key], depth + 1, visited);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the program logs attached to an error
+ *
+ * @returns The log lines, or an empty array when the error has none
+ */
+export function findSolanaLogs(error: unknown): string[] {
+  return searchLogs(error, 0, new Set()) ?? [];
+}
+
+function searchLogs(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): string[] | null {
+  if (depth > MAX_SEARCH_DEPTH || !isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  for (const key of LOG_KEYS) {
+    const logs = value[key];
+    if (
+      Array.isArray(logs) &&
+      logs.some(line => typeof line === 'string' && line.startsWith('Program '))
+    ) {
+      return logs.filter((line): line is string => typeof line === 'string');
+    }
+  }
+
+  for (const key of TRANSACTION_ERROR_KEYS) {
+    const found = searchLogs(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the program logs of a failed transaction
+ *
+ * The first `Program <id> failed: ...` line names the innermost program that
+ * failed. Top-level `Program <id> invoke [1]` lines before it are counted to
+ * find the index of the failing instruction. The last
+ * `AnchorError ... Error Code: <name>. Error Number: <code>. Error Message: <msg>`
+ * line before it gives the name and message of an Anchor program error.
+ *
+ * @param logs - Program log lines
+ * @returns The failing program, instruction index, custom error code and
+ * logged Anchor error, or null when no program failed
+ */
+export function parseSolanaProgramLogs(
+  logs: string[]
+): Pick<
+  SolanaErrorDetails,
+  'programId' | 'instructionIndex' | 'customCode' | 'programError'
+> | null {
+  let instructionIndex = -1;
+  let programError: SolanaProgramError | undefined;
+
+  for (const line of logs) {
+    const invoke = line.match(/^Program (\w+) invoke \[(\d+)\]/);
+    if (invoke) {
+      if (invoke[2] === '1') {
+        instructionIndex++;
+      }
+      continue;
+    }
+
+    const anchorError = line.match(
+      /AnchorError .*Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*)$/
+    );
+    if (anchorError?.[1] && anchorError[3]) {
+      programError = {
+        code: Number(anchorError[2]),
+        name: anchorError[1],
+        message: anchorError[3],
+      };
+      continue;
+    }
+
+    const failed = line.match(/^Program (\w+) failed: (.*)$/);
+    if (failed?.[1]) {
+      const customCode = parseCustomProgramError(failed[2] ?? '');
+      return {
+        programId: failed[1],
+        ...(instructionIndex >= 0 && { instructionIndex }),
+        ...(customCode !== undefined && { customCode }),
+        ...(programError &&
+          programError.code === customCode && { programError }),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the code of a `custom program error: 0x..` message
+ */
+function parseCustomProgramError(message: string): number | undefined {
+  const match = message.match(/custom program error: (0x[0-9a-fA-F]+)/);
+  return match?.[1] ? parseInt(match[1], 16) : undefined;
+}
+
+/**
+ * Parse the details of an `InstructionError` payload (`[index, error]`)
+ */
+function parseInstructionError(payload: unknown): SolanaErrorDetails {
+  if (!Array.isArray(payload)) {
+    return {};
+  }
+
+  const [index, instructionError] = payload as unknown[];
+  const details: SolanaErrorDetails = {
+    ...(typeof index === 'number' && { instructionIndex: index }),
+  };
+
+  const name =
+    typeof instructionError === 'string'
+      ? instructionError
+      : isRecord(instructionError)
+        ? Object.keys(instructionError)[0]
+        : undefined;
+
+  if (name === 'Custom' && isRecord(instructionError)) {
+    const code = instructionError.Custom;
+    return typeof code === 'number'
+      ? { ...details, customCode: code }
+      : details;
+  }
+
+  if (name && Object.hasOwn(SOLANA_ERROR_TABLE.instructionErrors, name)) {
+    return { ...details, instructionError: name };
+  }
+
+  return details;
+}
+
+/**
+ * Parse the details of a `TransactionError`
+ */
+function parseTransactionError(transactionError: unknown): SolanaErrorDetails {
+  if (typeof transactionError === 'string') {
+    return { transactionError };
+  }
+
+  if (!isRecord(transactionError)) {
+    return {};
+  }
+
+  const [name] = Object.keys(transactionError);
+  if (!name) {
+    return {};
+  }
+
+  const payload = transactionError[name];
+  if (name === 'InstructionError') {
+    return { transactionError: name, ...parseInstructionError(payload) };
+  }
+
+  // DuplicateInstruction(u8), InsufficientFundsForRent { account_index }
+  const accountIndex = isRecord(payload) ? payload.account_index : undefined;
+  return {
+    transactionError: name,
+    ...(typeof payload === 'number' && { instructionIndex: payload }),
+    ...(typeof accountIndex === 'number' && { accountIndex }),
+  };
+}
+
+/**
+ * Get the message of an error, if it has one
+ */
+function getMessage(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  return isRecord(error) && typeof error.message === 'string'
+    ? error.message
+    : '';
+}
+
+/**
+ * Gather the details of a Solana error
+ *
+ * The `TransactionError` payload is preferred. Program logs add the failing
+ * program, and `Error processing Instruction N: custom program error: 0x..`
+ * messages are used when the payload is missing.
+ *
+ * @param error - The error to inspect
+ * @returns The error details, or null when no Solana error was recognised
+ */
+export function parseSolanaError(error: unknown): SolanaErrorDetails | null {
+  const details = parseTransactionError(findSolanaTransactionError(error));
+  const failure = parseSolanaProgramLogs(findSolanaLogs(error));
+
+  if (
+    details.transactionError &&
+    details.transactionError !== 'InstructionError'
+  ) {
+    return details;
+  }
+
+  const message = getMessage(error).match(
+    /(?:Error processing Instruction (\d+): )?custom program error: (0x[0-9a-fA-F]+)/
+  );
+  const merged: SolanaErrorDetails = {
+    ...(message?.[1] && { instructionIndex: Number(message[1]) }),
+    ...(message?.[2] && { customCode: parseInt(message[2], 16) }),
+    ...failure,
+    ...details,
+  };
+
+  return merged.instructionError || merged.customCode !== undefined
+    ? merged
+    : null;
+}
+
+/**
+ * Decode a builtin `TransactionError` or `InstructionError` variant
+ *
+ * @param details - Details gathered with `parseSolanaError`
+ * @returns The decoded error, or null for custom program errors and unknown
+ * variants
+ */
+export function decodeSolanaVariant(
+  details: SolanaErrorDetails
+): DecodedChainError | null {
+  const { instructionError, transactionError } = details;
+
+  let name: string | undefined;
+  let code: string;
+  let variant: ChainErrorVariant | undefined;
+  if (instructionError) {
+    name = instructionError;
+    code = `SOLANA_INSTRUCTION_${toConstantCase(name)}`;
+    variant = SOLANA_ERROR_TABLE.instructionErrors[name];
+  } else {
+    name = transactionError;
+    code = `SOLANA_${toConstantCase(name ?? '')}`;
+    variant = name ? SOLANA_ERROR_TABLE.transactionErrors[name] : undefined;
+  }
+
+  if (!name || !variant) {
+    return null;
+  }
+
+  return createDecodedError(
+    'solana',
+    name,
+    code,
+    variant,
+    getSolanaErrorParams(details)
+  );
+}
+
+/**
+ * Get the interpolation parameters of a Solana error
+ */
+export function getSolanaErrorParams(
+  details: SolanaErrorDetails
+): Record<string, string | number> {
+  return {
+    ...(details.instructionIndex !== undefined && {
+      instructionIndex: details.instructionIndex,
+    }),
+    ...(details.accountIndex !== undefined && {
+      accountIndex: details.accountIndex,
+    }),
+    ...(details.programId && { programId: details.programId }),
+    ...(details.customCode !== undefined && { errorCode: details.customCode }),
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Stellar error decoding utilities
+ *
+ * This module locates Horizon problem documents (`type`, `title`, `status`,
+ * `extras.result_codes`) in Horizon responses and stellar-sdk errors, and
+ * decodes their transaction and operation result codes with the built-in
+ * catalog. Operation codes are resolved per operation type when the
+ * submitted transaction is attached to the error, since the same code has
+ * a different meaning for different operations.
+ */
+
+import {
+  DecodedChainError,
+  DecodedOperationError,
+  StellarErrorTable,
+  StellarErrorVariant,
+} from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as stellarErrors from '../errors/stellar-errors.json';
+
+/**
+ * Built-in Stellar error catalog
+ */
+export const STELLAR_ERROR_TABLE = stellarErrors as StellarErrorTable;
+
+/**
+ * Horizon problem document of a failed request
+ */
+export interface HorizonProblem {
+  /** Problem type, without the `https://stellar.org/horizon-errors/` prefix */
+  type?: string;
+  /** Problem title (e.g. `Transaction Failed`) */
+  title?: string;
+  /** HTTP status */
+  status?: number;
+  /** Transaction result code (e.g. `tx_failed`) */
+  transactionCode?: string;
+  /** Operation result codes, by operation index */
+  operationCodes: string[];
+  /** Operation types of the submitted transaction, by operation index */
+  operationTypes: string[];
+}
+
+/**
+ * Properties that commonly carry problem documents or nested errors
+ */
+const PROBLEM_KEYS = ['response', 'data', 'error', 'cause', 'body'] as const;
+
+/**
+ * Maximum nesting depth searched for the problem document
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Transaction codes reported when an operation failed
+ */
+const OPERATION_FAILED_CODES = ['tx_failed', 'tx_fee_bump_inner_failed'];
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert an operation type to its Horizon name
+ * (`pathPaymentStrictSend` → `path_payment_strict_send`)
+ */
+function toOperationType(type: string): string {
+  return type.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Find the Horizon problem document of a failed request
+ *
+ * Objects with `extras.result_codes` (or `result_codes`) and problem
+ * documents with a Horizon problem `type` are recognised, in the error
+ * itself and its `response`, `data`, `error`, `cause` and `body`
+ * properties. Operation types are read from the `operations` of the
+ * submitted transaction, attached to the error as `transaction`.
+ *
+ * @param error - The error to inspect
+ * @returns The problem document, or null when none was found
+ */
+export function findHorizonProblem(error: unknown): HorizonProblem | null {
+  const problem = searchProblem(error, 0, new Set());
+  if (!problem || !isRecord(error) || !isRecord(error.transaction)) {
+    return problem;
+  }
+
+  const { operations } = error.transaction;
+  return {
+    ...problem,
+    operationTypes: Array.isArray(operations)
+      ? operations.map(operation =>
+          isRecord(operation) && typeof operation.type === 'string'
+            ? toOperationType(operation.type)
+            : ''
+        )
+      : [],
+  };
+}
+
+function searchProblem(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): HorizonProblem | null {
+  if (depth > MAX_SEARCH_DEPTH || !isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  const resultCodes = isRecord(value.extras)
+    ? value.extras.result_codes
+    : value.result_codes;
+  const type =
+    typeof value.type === 'string'
+      ? value.type.match(/horizon-errors\/([\w-]+)$/)?.[1]
+      : undefined;
+
+  if (isRecord(resultCodes) || type) {
+    const { transaction, operations } = isRecord(resultCodes)
+      ? resultCodes
+      : { transaction: undefined, operations: undefined };
+    return {
+      ...(type && { type }),
+      ...(typeof value.title === 'string' && { title: value.title }),
+      ...(typeof value.status === 'number' && { status: value.status }),
+      ...(typeof transaction === 'string' && { transactionCode: transaction }),
+      operationCodes: Array.isArray(operations)
+        ? operations.map(code => (typeof code === 'string' ? code : ''))
+        : [],
+      operationTypes: [],
+    };
+  }
+
+  for (const key of PROBLEM_KEYS) {
+    const found = searchProblem(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the catalog entry of an operation result code
+ *
+ * Without the operation type, the generic entry under `common` is used,
+ * then the first operation type defining the code.
+ *
+ * @param code - Operation result code (e.g. `op_no_trust`)
+ * @param type - Operation type (e.g. `payment`)
+ * @returns The catalog entry or undefined
+ */
+export function getStellarOperationError(
+  code: string,
+  type?: string
+): StellarErrorVariant | undefined {
+  const { operationErrors } = STELLAR_ERROR_TABLE;
+  if (type) {
+    return operationErrors[type]?.[code] ?? operationErrors.common?.[code];
+  }
+  return (
+    operationErrors.common?.[code] ??
+    Object.values(operationErrors).find(errors => errors[code])?.[code]
+  );
+}
+
+/**
+ * Select the decoded name, default code and catalog entry of a problem
+ */
+function selectEntry(
+  problem: HorizonProblem,
+  failed: DecodedOperationError | undefined
+): { name: string; code: string; entry?: StellarErrorVariant } | null {
+  const { transactionCode, type } = problem;
+  const transactionError = transactionCode
+    ? STELLAR_ERROR_TABLE.transactionErrors[transactionCode]
+    : undefined;
+  const operationError =
+    failed && getStellarOperationError(failed.code, failed.type);
+
+  if (failed && operationError) {
+    return {
+      name: failed.code,
+      code: `STELLAR_${toConstantCase(failed.code)}`,
+      entry: {
+        ...operationError,
+        ...(transactionError?.detailedMessage && {
+          detailedMessage: transactionError.detailedMessage,
+        }),
+      },
+    };
+  }
+  if (transactionCode) {
+    return {
+      name: transactionCode,
+      code: `STELLAR_${toConstantCase(transactionCode)}`,
+      entry: transactionError,
+    };
+  }
+  if (type) {
+    return {
+      name: type,
+      code: `STELLAR_HORIZON_${toConstantCase(type)}`,
+      entry: STELLAR_ERROR_TABLE.problems[type],
+    };
+  }
+  return null;
+}
+
+/**
+ * Decode a Horizon problem document
+ *
+ * The first failed operation is decoded when the transaction failed because
+ * of it, otherwise the transaction result code, otherwise the problem type.
+ * Failed operations take the `detailedMessage` of the transaction code, so
+ * the message names the failing operation. All failed operations are listed
+ * in `operations`. Codes missing from the catalog are still reported,
+ * without a message.
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no problem document was recognised
+ */
+export function decodeStellarError(error: unknown): DecodedChainError | null {
+  const problem = findHorizonProblem(error);
+  if (!problem) {
+    return null;
+  }
+
+  const operations = problem.operationCodes.flatMap(
+    (code, index): DecodedOperationError[] => {
+      if (!code || code === 'op_success') {
+        return [];
+      }
+      const type = problem.operationTypes[index] || undefined;
+      const message = getStellarOperationError(code, type)?.message;
+      return [
+        {
+          index,
+          code,
+          ...(type && { type }),
+          ...(message && { message }),
+        },
+      ];
+    }
+  );
+
+  const { transactionCode, status, title } = problem;
+  const failed = OPERATION_FAILED_CODES.includes(transactionCode ?? '')
+    ? operations[0]
+    : undefined;
+  const params = {
+    ...(status !== undefined && { status }),
+    ...(title && { title }),
+    ...(transactionCode && { transactionCode }),
+    ...(failed && {
+      operationIndex: failed.index,
+      operationCode: failed.code,
+      ...(failed.type && { operationType: failed.type }),
+      ...(failed.message && { operationError: failed.message }),
+    }),
+  };
+
+  const selected = selectEntry(problem, failed);
+  if (!selected) {
+    return null;
+  }
+
+  let result: DecodedChainError;
+  if (selected.entry) {
+    const { code, ...variant } = selected.entry;
+    result = createDecodedError(
+      'stellar',
+      selected.name,
+      code ?? selected.code,
+      variant,
+      params
+    );
+  } else {
+    result = {
+      ecosystem: 'stellar',
+      name: selected.name,
+      code: selected.code,
+      category: 'transaction',
+      retryable: false,
+      params,
+    };
+  }
+
+  return operations.length > 0 ? { ...result, operations } : result;
+}
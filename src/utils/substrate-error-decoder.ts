@@ -0,0 +1,443 @@
+/**
+ * Substrate error decoding utilities
+ *
+ * This module locates the `DispatchError` of failed extrinsics in the shapes
+ * produced by @polkadot/api (codecs, `toJSON()` and `toHuman()` output,
+ * `ExtrinsicFailed` events, `RegistryError`s) and polkadot-api
+ * (`{ type, value }` enums), converts runtime metadata exported as JSON to
+ * module error tables, and decodes the `Token`, `Arithmetic`,
+ * `Transactional` and unit `DispatchError` variants with the built-in tables.
+ */
+
+import {
+  ChainErrorVariant,
+  DecodedChainError,
+  SubstrateErrorMetadata,
+  SubstrateErrorTable,
+  SubstratePalletErrors,
+} from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as substrateErrors from '../errors/substrate-errors.json';
+
+/**
+ * Built-in Substrate error tables
+ */
+export const SUBSTRATE_ERROR_TABLE = substrateErrors as SubstrateErrorTable;
+
+/**
+ * Details of a Substrate `DispatchError`
+ */
+export interface SubstrateDispatchErrorDetails {
+  /** `DispatchError` variant (e.g. `Module`, `Token`, `BadOrigin`) */
+  variant: string;
+  /** Nested variant of `Token`, `Arithmetic` and `Transactional` errors */
+  detail?: string;
+  /** Module index of the pallet that raised a `Module` error */
+  palletIndex?: number;
+  /** Index of a `Module` error in the pallet's `Error` enum */
+  errorIndex?: number;
+  /** Pallet name, when the error was already resolved */
+  pallet?: string;
+  /** Error name, when the error was already resolved */
+  error?: string;
+  /** Documentation of the error, when the error was already resolved */
+  docs?: string[];
+}
+
+/**
+ * `DispatchError` variants with a nested error enum
+ */
+const NESTED_VARIANTS = ['Module', 'Token', 'Arithmetic', 'Transactional'];
+
+/**
+ * Properties that commonly carry the dispatch error or nested errors
+ */
+const DISPATCH_ERROR_KEYS = [
+  'dispatchError',
+  'DispatchError',
+  'ExtrinsicFailed',
+  'error',
+  'cause',
+  'data',
+] as const;
+
+/**
+ * Maximum nesting depth searched for the dispatch error
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert an enum key to its variant name (`badOrigin` → `BadOrigin`)
+ */
+function toVariantName(key: string): string {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/**
+ * Convert a pallet name to its section name (`XcmPallet` → `xcmPallet`)
+ */
+export function toSectionName(pallet: string): string {
+  return pallet.charAt(0).toLowerCase() + pallet.slice(1);
+}
+
+/**
+ * Check if a name is a `DispatchError` variant
+ */
+function isDispatchVariant(name: string): boolean {
+  return (
+    NESTED_VARIANTS.includes(name) ||
+    Object.hasOwn(SUBSTRATE_ERROR_TABLE.dispatchErrors, name)
+  );
+}
+
+/**
+ * Parse a module or error index (`5`, `'5'`, `'0x02000000'`, `[2, 0, 0, 0]`)
+ *
+ * Since the 4-byte encoding of module errors, the first byte is the index.
+ */
+function parseIndex(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    if (/^\d+$/.test(value)) {
+      return Number(value);
+    }
+    return /^0x[\da-f]{2}/i.test(value)
+      ? parseInt(value.slice(2, 4), 16)
+      : undefined;
+  }
+  return Array.isArray(value) ? parseIndex(value[0]) : undefined;
+}
+
+/**
+ * Read the variant name of a nested enum (`'Overflow'`, `{ type: 'Overflow' }`)
+ */
+function parseEnumVariant(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return toVariantName(value);
+  }
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  if (typeof value.type === 'string') {
+    return toVariantName(value.type);
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] ? toVariantName(keys[0]) : undefined;
+}
+
+/**
+ * Parse the payload of a `Module` error
+ */
+function parseModuleError(value: unknown): SubstrateDispatchErrorDetails {
+  if (!isRecord(value)) {
+    return { variant: 'Module' };
+  }
+
+  // polkadot-api: { type: 'Balances', value: { type: 'InsufficientBalance' } }
+  if (typeof value.type === 'string') {
+    const error = parseEnumVariant(value.value);
+    return {
+      variant: 'Module',
+      ...(error && { pallet: value.type, error }),
+    };
+  }
+
+  const palletIndex = parseIndex(value.index);
+  const errorIndex = parseIndex(value.error);
+  return {
+    variant: 'Module',
+    ...(palletIndex !== undefined && { palletIndex }),
+    ...(errorIndex !== undefined && { errorIndex }),
+  };
+}
+
+/**
+ * Parse a `DispatchError` value
+ */
+function parseDispatchError(
+  value: unknown
+): SubstrateDispatchErrorDetails | null {
+  let variant: string | undefined;
+  let payload: unknown;
+  if (typeof value === 'string') {
+    variant = toVariantName(value);
+  } else if (isRecord(value) && typeof value.type === 'string') {
+    variant = toVariantName(value.type);
+    payload = value.value;
+  } else if (isRecord(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0]) {
+      variant = toVariantName(keys[0]);
+      payload = value[keys[0]];
+    }
+  }
+
+  if (!variant || !isDispatchVariant(variant)) {
+    return null;
+  }
+
+  if (variant === 'Module') {
+    return parseModuleError(payload);
+  }
+  if (NESTED_VARIANTS.includes(variant)) {
+    const detail = parseEnumVariant(payload);
+    return { variant, ...(detail && { detail }) };
+  }
+  return { variant };
+}
+
+/**
+ * Parse a resolved module error (`api.registry.findMetaError()` result)
+ */
+function parseRegistryError(
+  value: Record<string, unknown>
+): SubstrateDispatchErrorDetails | null {
+  const { section, method, docs } = value;
+  if (typeof section !== 'string' || typeof method !== 'string') {
+    return null;
+  }
+  return {
+    variant: 'Module',
+    pallet: section,
+    error: method,
+    ...(Array.isArray(docs) && {
+      docs: docs.filter((line): line is string => typeof line === 'string'),
+    }),
+  };
+}
+
+/**
+ * Find the `DispatchError` of a failed extrinsic
+ *
+ * The error itself and its `dispatchError`, `DispatchError`,
+ * `ExtrinsicFailed`, `error`, `cause` and `data` properties are searched.
+ * Codecs are read through their `toJSON()` output.
+ *
+ * @param error - The error to inspect
+ * @returns The dispatch error details, or null when none was found
+ */
+export function findSubstrateDispatchError(
+  error: unknown
+): SubstrateDispatchErrorDetails | null {
+  return searchDispatchError(error, 0, new Set());
+}
+
+function searchDispatchError(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): SubstrateDispatchErrorDetails | null {
+  if (depth > MAX_SEARCH_DEPTH || visited.has(value)) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return parseDispatchError(value);
+  }
+
+  if (Array.isArray(value)) {
+    visited.add(value);
+    for (const item of value) {
+      const found = searchDispatchError(item, depth + 1, visited);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  if (!isRecord(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  // @polkadot/api codecs
+  if (typeof value.toJSON === 'function' && 'registry' in value) {
+    return searchDispatchError(
+      (value.toJSON as () => unknown)(),
+      depth,
+      visited
+    );
+  }
+
+  const found = parseDispatchError(value) ?? parseRegistryError(value);
+  if (found) {
+    return found;
+  }
+
+  for (const key of DISPATCH_ERROR_KEYS) {
+    const nested = searchDispatchError(value[key], depth + 1, visited);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the built-in errors of a pallet by name or alias
+ *
+ * @param pallet - Pallet or section name (e.g. `Balances`, `polkadotXcm`)
+ * @returns The built-in errors of the pallet, or undefined
+ */
+export function findBuiltInPallet(
+  pallet: string
+): SubstratePalletErrors | undefined {
+  const section = toSectionName(pallet);
+  return Object.entries(SUBSTRATE_ERROR_TABLE.pallets).find(
+    ([name, errors]) => name === section || errors.aliases?.includes(section)
+  )?.[1];
+}
+
+/**
+ * Get the built-in table of a nested `DispatchError` variant
+ */
+function getVariantTable(
+  variant: string
+): Record<string, ChainErrorVariant> | undefined {
+  const { tokenErrors, arithmeticErrors, transactionalErrors } =
+    SUBSTRATE_ERROR_TABLE;
+  const tables: Record<string, Record<string, ChainErrorVariant>> = {
+    Token: tokenErrors,
+    Arithmetic: arithmeticErrors,
+    Transactional: transactionalErrors,
+  };
+  return tables[variant];
+}
+
+/**
+ * Decode a `DispatchError` other than `Module` with the built-in tables
+ *
+ * Nested variants missing from the tables are still reported, without a
+ * message.
+ *
+ * @param details - The dispatch error details
+ * @returns The decoded error
+ */
+export function decodeSubstrateVariant(
+  details: SubstrateDispatchErrorDetails
+): DecodedChainError {
+  const { variant, detail } = details;
+  const table = getVariantTable(variant);
+  const name = table && detail ? `${variant}.${detail}` : variant;
+  const code = `POLKADOT_${toConstantCase(name)}`;
+  const entry = table
+    ? detail
+      ? table[detail]
+      : undefined
+    : SUBSTRATE_ERROR_TABLE.dispatchErrors[variant];
+
+  if (!entry) {
+    return {
+      ecosystem: 'polkadot',
+      name,
+      code,
+      category: 'transaction',
+      retryable: false,
+    };
+  }
+
+  return createDecodedError('polkadot', name, code, entry, {});
+}
+
+/**
+ * Find the versioned body (`v14`, `v15`, ...) of exported runtime metadata
+ */
+function findVersionedMetadata(
+  metadata: unknown
+): Record<string, unknown> | undefined {
+  if (!isRecord(metadata)) {
+    return undefined;
+  }
+  const root = isRecord(metadata.metadata) ? metadata.metadata : metadata;
+  const key = Object.keys(root).find(candidate =>
+    /^v(1[4-9]|[2-9]\d)$/i.test(candidate)
+  );
+  const body = key ? root[key] : undefined;
+  return isRecord(body) ? body : undefined;
+}
+
+/**
+ * Read the variants of the error enums in the type registry of metadata
+ */
+function readErrorVariants(
+  lookup: unknown
+): Map<number, Array<Record<string, unknown>>> {
+  const types: unknown[] =
+    isRecord(lookup) && Array.isArray(lookup.types) ? lookup.types : [];
+  const variants = new Map<number, Array<Record<string, unknown>>>();
+  for (const entry of types) {
+    if (!isRecord(entry) || typeof entry.id !== 'number') {
+      continue;
+    }
+    const def = isRecord(entry.type) ? entry.type.def : undefined;
+    const variant = isRecord(def) ? def.variant : undefined;
+    if (isRecord(variant) && Array.isArray(variant.variants)) {
+      variants.set(entry.id, variant.variants.filter(isRecord));
+    }
+  }
+  return variants;
+}
+
+/**
+ * Convert runtime metadata to a module error table
+ *
+ * Error tables are returned as they are. Runtime metadata exported as JSON
+ * (V14 or later, e.g. `api.runtimeMetadata.toJSON()`) is converted by
+ * reading the error enum of each pallet from the type registry.
+ *
+ * @param metadata - The error table or exported runtime metadata
+ * @returns The module error table
+ * @throws Error if the metadata format is not supported
+ */
+export function parseSubstrateMetadata(
+  metadata: unknown
+): SubstrateErrorMetadata {
+  if (
+    isRecord(metadata) &&
+    Array.isArray(metadata.pallets) &&
+    metadata.pallets.every(
+      pallet => isRecord(pallet) && Array.isArray(pallet.errors)
+    )
+  ) {
+    return metadata as unknown as SubstrateErrorMetadata;
+  }
+
+  const body = findVersionedMetadata(metadata);
+  if (!body || !Array.isArray(body.pallets)) {
+    throw new Error('Unsupported Substrate metadata format');
+  }
+
+  const variants = readErrorVariants(body.lookup);
+  return {
+    pallets: body.pallets.filter(isRecord).map(pallet => {
+      const errorsType = isRecord(pallet.errors)
+        ? pallet.errors.type
+        : pallet.errors;
+      const errors =
+        typeof errorsType === 'number' ? (variants.get(errorsType) ?? []) : [];
+      return {
+        index: Number(pallet.index),
+        name: String(pallet.name),
+        errors: errors.map(error => ({
+          index: Number(error.index),
+          name: String(error.name),
+          ...(Array.isArray(error.docs) && {
+            docs: error.docs.filter(
+              (line): line is string => typeof line === 'string'
+            ),
+          }),
+        })),
+      };
+    }),
+  };
+}
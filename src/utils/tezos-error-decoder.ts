@@ -0,0 +1,366 @@
+/**
+ * Tezos error decoding utilities
+ *
+ * This module locates the error lists returned by the Tezos RPC
+ * (`[{ kind, id, ...fields }]`) in RPC responses, operation results and
+ * Taquito errors, and decodes them with the built-in catalog. Error ids are
+ * matched without their protocol prefix (`proto.018-Proxford.`), so the
+ * catalog applies to every protocol. The value passed to `FAILWITH` by a
+ * rejected Michelson script is extracted as well, so it can be matched by
+ * error mappings.
+ */
+
+import {
+  DecodedChainError,
+  TezosErrorTable,
+  TezosErrorVariant,
+} from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as tezosErrors from '../errors/tezos-errors.json';
+
+/**
+ * Built-in Tezos error catalog
+ */
+export const TEZOS_ERROR_TABLE = tezosErrors as TezosErrorTable;
+
+/**
+ * Error of a Tezos RPC error list
+ */
+export interface TezosRpcError {
+  /** Error id without the protocol prefix (e.g. `contract.balance_too_low`) */
+  id: string;
+  /** Protocol of the error (e.g. `018-Proxford`), when the id has one */
+  protocol?: string;
+  /** Error kind (`permanent`, `temporary`, `branch`) */
+  kind?: string;
+  /** Fields of the error keyed in camel case, and the `failwith` value */
+  params: Record<string, string | number>;
+  /**
+   * Leading string of the `FAILWITH` value (`NotEnoughBalance` for
+   * `Pair "NotEnoughBalance" (Pair 10 5)`)
+   */
+  failwithLabel?: string;
+}
+
+/**
+ * Properties that commonly carry error lists or nested errors
+ */
+const ERROR_KEYS = [
+  'errors',
+  'error',
+  'body',
+  'data',
+  'response',
+  'cause',
+  'operation_result',
+  'metadata',
+  'result',
+] as const;
+
+/**
+ * Maximum nesting depth searched for the error list
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Protocol prefix of error ids (`proto.018-Proxford.`, `proto.alpha.`)
+ */
+const PROTOCOL_PREFIX = /^proto\.(\d{3}-[A-Za-z\d]+|alpha)\./;
+
+/**
+ * Id of the error raised when a Michelson script reaches `FAILWITH`
+ */
+const SCRIPT_REJECTED = 'michelson_v1.script_rejected';
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a field name to a parameter name (`contract_handle` → `contractHandle`)
+ */
+function toCamelCase(name: string): string {
+  return name.replace(/_([a-z\d])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Split the protocol prefix off an error id
+ *
+ * @param id - Error id (e.g. `proto.018-Proxford.michelson_v1.script_rejected`)
+ * @returns The id without prefix and the protocol, when the id has one
+ *
+ * @example
+ * ```typescript
+ * parseTezosErrorId('proto.018-Proxford.contract.balance_too_low');
+ * // { id: 'contract.balance_too_low', protocol: '018-Proxford' }
+ * ```
+ */
+export function parseTezosErrorId(id: string): {
+  id: string;
+  protocol?: string;
+} {
+  const match = id.match(PROTOCOL_PREFIX);
+  return match
+    ? {
+        id: id.slice(match[0].length),
+        ...(match[1] && { protocol: match[1] }),
+      }
+    : { id };
+}
+
+/**
+ * Format a Michelson value in Michelson notation
+ *
+ * Strings are quoted only inside other values, so a plain string value reads
+ * the way it was written in the contract.
+ */
+function formatMichelson(value: unknown, nested = false): string {
+  if (Array.isArray(value)) {
+    return `{ ${value.map(item => formatMichelson(item, true)).join(' ; ')} }`;
+  }
+  if (!isRecord(value)) {
+    return String(value);
+  }
+  if (typeof value.string === 'string') {
+    return nested ? JSON.stringify(value.string) : value.string;
+  }
+  if (typeof value.int === 'string') {
+    return value.int;
+  }
+  if (typeof value.bytes === 'string') {
+    return `0x${value.bytes}`;
+  }
+  if (typeof value.prim === 'string') {
+    const args = Array.isArray(value.args)
+      ? value.args.map(arg => formatMichelson(arg, true))
+      : [];
+    const expression = [value.prim, ...args].join(' ');
+    return nested && args.length > 0 ? `(${expression})` : expression;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Get the leading string of a `FAILWITH` value
+ */
+function getFailwithLabel(value: unknown): string | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  if (typeof value.string === 'string') {
+    return value.string;
+  }
+  return value.prim === 'Pair' && Array.isArray(value.args)
+    ? getFailwithLabel(value.args[0])
+    : undefined;
+}
+
+/**
+ * Parse an error of an RPC error list
+ */
+function parseRpcError(error: Record<string, unknown>): TezosRpcError {
+  const { id, protocol } = parseTezosErrorId(String(error.id));
+  const params: Record<string, string | number> = {};
+  Object.entries(error).forEach(([field, value]) => {
+    if (
+      field !== 'id' &&
+      field !== 'kind' &&
+      (typeof value === 'string' || typeof value === 'number')
+    ) {
+      params[toCamelCase(field)] = value;
+    }
+  });
+
+  const failwithLabel =
+    id === SCRIPT_REJECTED ? getFailwithLabel(error.with) : undefined;
+  if (id === SCRIPT_REJECTED && error.with !== undefined) {
+    params.failwith = formatMichelson(error.with);
+  }
+
+  return {
+    id,
+    ...(protocol && { protocol }),
+    ...(typeof error.kind === 'string' && { kind: error.kind }),
+    params,
+    ...(failwithLabel !== undefined && { failwithLabel }),
+  };
+}
+
+/**
+ * Check if a value is an RPC error list
+ */
+function isErrorList(value: unknown[]): boolean {
+  return (
+    value.length > 0 &&
+    value.every(
+      item =>
+        isRecord(item) &&
+        typeof item.id === 'string' &&
+        typeof item.kind === 'string'
+    )
+  );
+}
+
+/**
+ * Find the RPC error list of a failed Tezos operation
+ *
+ * Arrays of `{ kind, id }` errors are recognised in the error itself and its
+ * `errors`, `error`, `body`, `data`, `response`, `cause`,
+ * `operation_result`, `metadata` and `result` properties. Response bodies
+ * that were not parsed (JSON strings) are parsed.
+ *
+ * @param error - The error to inspect
+ * @returns The errors, outermost first, or null when none were found
+ */
+export function findTezosErrors(error: unknown): TezosRpcError[] | null {
+  return searchErrors(error, 0, new Set());
+}
+
+function searchErrors(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): TezosRpcError[] | null {
+  if (depth > MAX_SEARCH_DEPTH) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    if (depth === 0 || !value.trimStart().startsWith('[{')) {
+      return null;
+    }
+    try {
+      return searchErrors(JSON.parse(value), depth, visited);
+    } catch {
+      return null;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return isErrorList(value)
+      ? value.filter(isRecord).map(parseRpcError)
+      : null;
+  }
+
+  if (!isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  for (const key of ERROR_KEYS) {
+    const found = searchErrors(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the value passed to `FAILWITH` by a rejected Michelson script
+ *
+ * Only the leading string of values like `Pair "NotEnoughBalance" (Pair 10 5)`
+ * is returned, so error mappings can match the error name.
+ *
+ * @param error - The error to inspect
+ * @returns The value in Michelson notation, or null when no script was rejected
+ */
+export function findTezosFailwith(error: unknown): string | null {
+  const rejected = findTezosErrors(error)?.find(
+    rpcError => rpcError.id === SCRIPT_REJECTED
+  );
+  const failwith = rejected?.failwithLabel ?? rejected?.params.failwith;
+  return failwith !== undefined ? String(failwith) : null;
+}
+
+/**
+ * Create the decoded error of an RPC error and its catalog entry
+ */
+function toDecodedError(
+  rpcError: TezosRpcError,
+  name: string,
+  defaultCode: string,
+  variant: TezosErrorVariant
+): DecodedChainError {
+  const { code, ...entry } = variant;
+  return createDecodedError(
+    'tezos',
+    name,
+    code ?? defaultCode,
+    entry,
+    rpcError.params
+  );
+}
+
+/**
+ * Decode the RPC error list of a failed Tezos operation
+ *
+ * The innermost error found in the catalog is decoded. Rejected scripts are
+ * decoded from their `FAILWITH` value: well-known token standard values
+ * have built-in messages, others are reported without a message, so the
+ * value is translated through the error mappings. Errors missing from the
+ * catalog are reported the same way.
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no RPC error list was recognised
+ */
+export function decodeTezosError(error: unknown): DecodedChainError | null {
+  const errors = findTezosErrors(error);
+  const last = errors?.[errors.length - 1];
+  if (!errors || !last) {
+    return null;
+  }
+
+  for (const rpcError of [...errors].reverse()) {
+    const entry = TEZOS_ERROR_TABLE.errors[rpcError.id];
+
+    if (
+      rpcError.id === SCRIPT_REJECTED &&
+      rpcError.params.failwith !== undefined
+    ) {
+      const { failwithLabel } = rpcError;
+      const failwithEntry =
+        failwithLabel !== undefined &&
+        Object.hasOwn(TEZOS_ERROR_TABLE.failwith, failwithLabel)
+          ? TEZOS_ERROR_TABLE.failwith[failwithLabel]
+          : undefined;
+      if (failwithEntry && failwithLabel !== undefined) {
+        return toDecodedError(
+          rpcError,
+          SCRIPT_REJECTED,
+          `TEZOS_${toConstantCase(failwithLabel)}`,
+          failwithEntry
+        );
+      }
+      return {
+        ecosystem: 'tezos',
+        name: SCRIPT_REJECTED,
+        code: entry?.code ?? `TEZOS_${toConstantCase(SCRIPT_REJECTED)}`,
+        category: 'contract',
+        retryable: false,
+        params: rpcError.params,
+      };
+    }
+
+    if (entry && Object.hasOwn(TEZOS_ERROR_TABLE.errors, rpcError.id)) {
+      return toDecodedError(
+        rpcError,
+        rpcError.id,
+        `TEZOS_${toConstantCase(rpcError.id)}`,
+        entry
+      );
+    }
+  }
+
+  return {
+    ecosystem: 'tezos',
+    name: last.id,
+    code: `TEZOS_${toConstantCase(last.id)}`,
+    category: 'transaction',
+    retryable: false,
+    params: last.params,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * XRPL error decoding utilities
+ *
+ * This module locates the transaction engine result of failed XRP Ledger
+ * transactions (`meta.TransactionResult` of validated transactions,
+ * `engine_result` of submit responses, `transaction_result`) in rippled
+ * responses and xrpl.js errors, and decodes it with the built-in catalog.
+ * Every result belongs to a class, given by its prefix, that tells whether
+ * the transaction may still succeed and whether its fee was charged.
+ */
+
+import { DecodedChainError, XrplErrorTable } from '../types';
+import { createDecodedError, toConstantCase } from './decoded-error';
+import * as xrplErrors from '../errors/xrpl-errors.json';
+
+/**
+ * Built-in XRPL engine result catalog
+ */
+export const XRPL_ERROR_TABLE = xrplErrors as XrplErrorTable;
+
+/**
+ * Engine result of a failed XRPL transaction
+ */
+export interface XrplResultInfo {
+  /** Engine result code (e.g. `tecUNFUNDED_PAYMENT`) */
+  result: string;
+  /** Explanation returned by the server (`engine_result_message`) */
+  resultMessage?: string;
+  /** Hash of the transaction */
+  txHash?: string;
+}
+
+/**
+ * Properties that commonly carry responses or nested errors
+ */
+const RESPONSE_KEYS = ['result', 'data', 'error', 'cause', 'response'] as const;
+
+/**
+ * Maximum nesting depth searched for the engine result
+ */
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Engine result codes of failures (`tesSUCCESS` is not a failure)
+ */
+const FAILURE_RESULT = /^te[cflmr][A-Z_]+$/;
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the engine result of a failed XRPL transaction
+ *
+ * The final `meta.TransactionResult` is preferred over the
+ * `transaction_result` and the preliminary `engine_result` of the same
+ * response. Error messages naming a result code are parsed as well.
+ *
+ * @param error - The error to inspect
+ * @returns The engine result, or null when no failure was found
+ */
+export function findXrplResult(error: unknown): XrplResultInfo | null {
+  return searchResult(error, 0, new Set());
+}
+
+function searchResult(
+  value: unknown,
+  depth: number,
+  visited: Set<unknown>
+): XrplResultInfo | null {
+  if (depth > MAX_SEARCH_DEPTH) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    const result = value.match(/\b(te[cflmr][A-Z_]+)\b/)?.[1];
+    return result ? { result } : null;
+  }
+
+  if (!isRecord(value) || visited.has(value)) {
+    return null;
+  }
+  visited.add(value);
+
+  const meta = isRecord(value.meta) ? value.meta : undefined;
+  const transactionResult = isRecord(value.transaction_result)
+    ? value.transaction_result.result
+    : value.transaction_result;
+  const result = [
+    value.TransactionResult,
+    meta?.TransactionResult,
+    transactionResult,
+    value.engine_result,
+  ].find((candidate): candidate is string => typeof candidate === 'string');
+
+  if (result !== undefined) {
+    if (!FAILURE_RESULT.test(result)) {
+      return null;
+    }
+    const txHash = [
+      value.hash,
+      isRecord(value.tx_json) ? value.tx_json.hash : undefined,
+    ].find((candidate): candidate is string => typeof candidate === 'string');
+    const resultMessage =
+      result === value.engine_result &&
+      typeof value.engine_result_message === 'string'
+        ? value.engine_result_message
+        : undefined;
+    return {
+      result,
+      ...(resultMessage && { resultMessage }),
+      ...(txHash && { txHash }),
+    };
+  }
+
+  for (const key of RESPONSE_KEYS) {
+    const found = searchResult(value[key], depth + 1, visited);
+    if (found) {
+      return found;
+    }
+  }
+
+  return typeof value.message === 'string'
+    ? searchResult(value.message, depth + 1, visited)
+    : null;
+}
+
+/**
+ * Decode the engine result of a failed XRPL transaction
+ *
+ * Results missing from the catalog are reported with the message of their
+ * class.
+ *
+ * @param error - The error to decode
+ * @returns The decoded error or null if no failed result was recognised
+ */
+export function decodeXrplError(error: unknown): DecodedChainError | null {
+  const info = findXrplResult(error);
+  const resultClass = info && XRPL_ERROR_TABLE.classes[info.result.slice(0, 3)];
+  if (!info || !resultClass) {
+    return null;
+  }
+
+  const { description, ...classRule } = resultClass;
+  const variant = XRPL_ERROR_TABLE.results[info.result];
+  return createDecodedError(
+    'ripple',
+    info.result,
+    `XRPL_${toConstantCase(info.result)}`,
+    { ...classRule, ...variant },
+    {
+      resultCode: info.result,
+      ...(info.resultMessage && { resultMessage: info.resultMessage }),
+      ...(info.txHash && { txHash: info.txHash }),
+    }
+  );
+}